@@ -2,6 +2,7 @@ import { App } from "obsidian";
 
 import {
 	CodeStylerSettings,
+	CodeStylerTheme,
 	CodeStylerThemeColours,
 	CodeStylerThemeModeColours,
 	CodeStylerThemeSettings,
@@ -56,6 +57,7 @@ export function updateStyling(settings: CodeStylerSettings, app: App): void {
 	}
 	styleTag.innerText = (
 		styleThemeColours(settings.currentTheme.colours) +
+		styleCodeblockThemes(settings.themes) +
 		styleThemeSettings(settings.currentTheme.settings, currentTheme) +
 		styleLanguageColours(
 			settings.currentTheme.settings,
@@ -73,15 +75,17 @@ function styleThemeColours(themeColours: CodeStylerThemeColours): string {
 		themeColours.light.highlights.alternativeHighlights
 	).reduce(
 		(result: string, alternativeHighlight: string) => {
+			const highlightName = alternativeHighlight
+				.replace(/\s+/g, "-")
+				.toLowerCase();
 			return (
 				result +
 				`
-			body.code-styler .code-styler-line-highlighted-${alternativeHighlight
-				.replace(/\s+/g, "-")
-				.toLowerCase()} {
-				--gradient-background-colour: var(--code-styler-${alternativeHighlight
-					.replace(/\s+/g, "-")
-					.toLowerCase()}-highlight-colour) !important;
+			body.code-styler .code-styler-line-highlighted-${highlightName} {
+				--gradient-background-colour: var(--code-styler-${highlightName}-highlight-colour) !important;
+			}
+			body.code-styler .code-styler-text-highlighted-${highlightName} {
+				background-color: var(--code-styler-${highlightName}-highlight-colour);
 			}
 		`
 			);
@@ -97,6 +101,30 @@ function styleThemeColours(themeColours: CodeStylerThemeColours): string {
 	);
 }
 
+function styleCodeblockThemes(
+	themes: Record<string, CodeStylerTheme>
+): string {
+	return Object.entries(themes).reduce(
+		(result: string, [themeName, theme]: [string, CodeStylerTheme]) => {
+			const themeClass = `code-styler-theme-${themeName
+				.replace(/\s+/g, "-")
+				.toLowerCase()}`;
+			return (
+				result +
+				`
+			body.code-styler.theme-light .${themeClass} {
+				${getThemeColours(theme.colours.light)}
+			}
+			body.code-styler.theme-dark .${themeClass} {
+				${getThemeColours(theme.colours.dark)}
+			}
+		`
+			);
+		},
+		""
+	);
+}
+
 function getThemeColours(themeModeColours: CodeStylerThemeModeColours): string {
 	return Object.entries({
 		"codeblock-background-colour":
@@ -129,6 +157,10 @@ function getThemeColours(themeModeColours: CodeStylerThemeModeColours): string {
 		"inline-colour-active": themeModeColours.inline.activeTextColour,
 		"inline-background-colour": themeModeColours.inline.backgroundColour,
 		"inline-title-colour": themeModeColours.inline.titleTextColour,
+		"inline-key-background-colour":
+			themeModeColours.inline.keyBackgroundColour,
+		"inline-key-text-colour": themeModeColours.inline.keyTextColour,
+		"inline-key-border-colour": themeModeColours.inline.keyBorderColour,
 		...Object.entries(
 			themeModeColours.highlights.alternativeHighlights
 		).reduce(
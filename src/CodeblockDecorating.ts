@@ -1,31 +1,65 @@
 import {
 	LANGUAGE_NAMES,
 	CodeStylerThemeSettings,
+	FLASH_LENGTH,
 	FOLD_PLACEHOLDER,
 	GIT_ICONS,
+	InlineCopy,
+	MAC_MODIFIER_SYMBOLS,
+	MODIFIER_KEYS,
 	STAMP_ICON,
+	SELECTED_TABS_KEY,
 	SITE_ICONS,
 	UPDATE_ICON,
 } from "./Settings";
-import { CodeblockParameters, Highlights } from "./Parsing/CodeblockParsing";
+import {
+	CodeblockGroup,
+	CodeblockParameters,
+	CodeblockTab,
+	DiffMarker,
+	Highlights,
+} from "./Parsing/CodeblockParsing";
 import { InlineCodeParameters } from "./Parsing/InlineCodeParsing";
-import { MarkdownRenderer, MarkdownView } from "obsidian";
+import { MarkdownRenderer, MarkdownView, Platform, setIcon } from "obsidian";
 import CodeStylerPlugin from "./main";
 import { rerender } from "./EditingView";
 import { updateExtRef } from "./Referencing";
 
+export interface TextHighlight {
+	from: number;
+	to: number;
+	className: string;
+}
+
 export function createHeader(
 	params: CodeblockParameters,
 	themeSettings: CodeStylerThemeSettings,
 	sourcePath: string,
-	plugin: CodeStylerPlugin
+	plugin: CodeStylerPlugin,
+	selectTab?: (index: number) => void
 ): HTMLElement {
 	const headerContainer = createDiv();
 	const iconURL = params.language
 		? getLanguageIcon(params.language, plugin.languageIcons)
 		: undefined;
-	if (!isHeaderHidden(params, themeSettings, iconURL)) {
+	if (params.group.tabs.length !== 0) {
+		headerContainer.classList.add(
+			"code-styler-header-container",
+			"code-styler-header-tabs"
+		);
+		if (params.theme)
+			headerContainer.classList.add(getThemeClass(params.theme));
+		params.group.tabs.forEach((tab, index) =>
+			headerContainer.appendChild(
+				createTab(tab, index === params.group.index, plugin, () =>
+					selectTab?.(index)
+				)
+			)
+		);
+	} else if (!isHeaderHidden(params, themeSettings, iconURL)) {
 		headerContainer.classList.add("code-styler-header-container");
+		if (params.theme)
+			headerContainer.classList.add(getThemeClass(params.theme));
 		if (params.language !== "") {
 			if (isLanguageIconShown(params, themeSettings, iconURL)) {
 				headerContainer.appendChild(
@@ -61,6 +95,70 @@ export function createHeader(
 	return headerContainer;
 }
 
+function createTab(
+	tab: CodeblockTab,
+	active: boolean,
+	plugin: CodeStylerPlugin,
+	selectTab: () => void
+): HTMLElement {
+	const tabContainer = createDiv({
+		cls: "code-styler-tab",
+		attr: { "data-code-styler-tab": getTabLabel(tab) },
+	});
+	const iconURL = tab.language
+		? getLanguageIcon(tab.language, plugin.languageIcons)
+		: undefined;
+	if (typeof iconURL !== "undefined")
+		tabContainer.appendChild(createImageWrapper(iconURL, createDiv()));
+	if (tab.title !== "" || typeof iconURL === "undefined")
+		tabContainer.appendChild(
+			createDiv({
+				cls: "code-styler-header-text",
+				text: tab.title || getLanguageTag(tab.language),
+			})
+		);
+	if (active) tabContainer.classList.add("code-styler-tab-active");
+	else
+		tabContainer.addEventListener("click", (event) => {
+			event.stopPropagation(); // Select instead of folding
+			selectTab();
+		});
+	return tabContainer;
+}
+
+export function getTabLabel(tab: CodeblockTab): string {
+	return tab.title || tab.language;
+}
+
+export function getSelectedTab(
+	group: CodeblockGroup,
+	sourcePath: string,
+	plugin: CodeStylerPlugin
+): number {
+	const selectedTabs = plugin.app.loadLocalStorage(SELECTED_TABS_KEY);
+	return Math.max(
+		group.tabs
+			.map((tab) => getTabLabel(tab))
+			.indexOf(selectedTabs?.[sourcePath]?.[group.name]),
+		0
+	);
+}
+
+export function setSelectedTab(
+	group: CodeblockGroup,
+	index: number,
+	sourcePath: string,
+	plugin: CodeStylerPlugin
+) {
+	const selectedTabs: Record<string, Record<string, string>> =
+		plugin.app.loadLocalStorage(SELECTED_TABS_KEY) ?? {};
+	selectedTabs[sourcePath] = {
+		...(selectedTabs?.[sourcePath] ?? {}),
+		[group.name]: getTabLabel(group.tabs[index]),
+	};
+	plugin.app.saveLocalStorage(SELECTED_TABS_KEY, selectedTabs);
+}
+
 function createTitleContainer(
 	params: CodeblockParameters,
 	settings: CodeStylerThemeSettings,
@@ -152,6 +250,25 @@ function createExtRefContainer(
 		);
 	}
 
+	const lineAnchor = params?.externalReference?.lineAnchor;
+	if (lineAnchor) {
+		const linesContainer = createDiv({ cls: "external-reference-lines" });
+		const linesLink = createEl("a", {
+			cls: "external-link",
+			text:
+				lineAnchor.start === lineAnchor.end
+					? `L${lineAnchor.start}`
+					: `L${lineAnchor.start}-L${lineAnchor.end}`,
+			href: metadata?.displayUrl,
+			attr: { target: "_blank", rel: "noopener" },
+		});
+		linesLink.addEventListener("click", (event) =>
+			event.stopPropagation()
+		); // Prevent folding
+		linesContainer.appendChild(linesLink);
+		container.appendChild(linesContainer);
+	}
+
 	const updateIcon = createEl("button", {
 		cls: "external-reference-update-icon",
 	});
@@ -243,6 +360,67 @@ export function createInlineOpener(
 	return openerContainer;
 }
 
+export function getInlineCopy(
+	params: InlineCodeParameters | null,
+	themeSettings: CodeStylerThemeSettings
+): InlineCopy {
+	if (params?.copy === false) return "none";
+	else if (params?.copy && themeSettings.inline.copy === "none")
+		return "click";
+	return themeSettings.inline.copy;
+}
+
+export function createInlineCopyButton(text: string): HTMLElement {
+	const copyButton = createSpan({
+		cls: "code-styler-inline-copy-button",
+		attr: { "aria-label": "Copy" },
+	});
+	setIcon(copyButton, "copy");
+	copyButton.addEventListener("click", (event) => {
+		event.preventDefault();
+		event.stopPropagation();
+		copyText(text, copyButton);
+	});
+	return copyButton;
+}
+
+export function copyText(text: string, element: HTMLElement): void {
+	navigator.clipboard.writeText(text);
+	element.classList.add("code-styler-copied");
+	setTimeout(
+		() => element.classList.remove("code-styler-copied"),
+		FLASH_LENGTH
+	);
+}
+
+export function createKeyboardKeys(text: string): HTMLElement {
+	const keysContainer = createSpan({ cls: "code-styler-kbd" });
+	text.trim()
+		.split(/\s*\+\s*(?!$)/)
+		.forEach((key, index) => {
+			if (index !== 0)
+				keysContainer.createSpan({
+					cls: "code-styler-kbd-separator",
+					text: "+",
+				});
+			keysContainer.createEl("kbd", {
+				cls: "code-styler-kbd-key",
+				text: getKeyLabel(key),
+			});
+		});
+	return keysContainer;
+}
+
+function getKeyLabel(key: string): string {
+	const modifier = Object.entries(MODIFIER_KEYS).find(([, aliases]) =>
+		aliases.includes(key.toLowerCase())
+	)?.[0];
+	if (typeof modifier === "undefined") return key;
+	return Platform.isMacOS
+		? MAC_MODIFIER_SYMBOLS[modifier]
+		: modifier; // Show platform specific modifiers
+}
+
 function createImageWrapper(
 	iconURL: string,
 	imageWrapper: HTMLElement,
@@ -324,9 +502,6 @@ export function getLineClass(
 		) ||
 		params.highlights.default.plainText.some(
 			(text) => line.indexOf(text) > -1
-		) ||
-		params.highlights.default.regularExpressions.some((regExp) =>
-			regExp.test(line)
 		)
 	)
 		classList.push("code-styler-line-highlighted");
@@ -338,9 +513,6 @@ export function getLineClass(
 				) ||
 				highlightedLines.plainText.some(
 					(text) => line.indexOf(text) > -1
-				) ||
-				highlightedLines.regularExpressions.some((regExp) =>
-					regExp.test(line)
 				)
 			)
 				classList.push(
@@ -353,5 +525,246 @@ export function getLineClass(
 	if (classList.length === 0) {
 		classList = ["code-styler-line"];
 	}
+	if (getLineAnnotations(params, lineNumber, line).length !== 0)
+		classList.push("code-styler-line-annotated");
 	return classList;
 }
+
+export function getLineAnnotations(
+	params: CodeblockParameters,
+	lineNumber: number,
+	line: string
+): string[] {
+	return params.annotations
+		.filter(
+			(annotation) =>
+				annotation.lineNumbers.includes(
+					lineNumber + params.lineNumbers.offset
+				) || (annotation.regularExpression?.test(line) ?? false)
+		)
+		.map((annotation) => annotation.text);
+}
+
+export function getTextHighlights(
+	params: CodeblockParameters,
+	lineNumber: number,
+	lineText: string
+): TextHighlight[] {
+	return [
+		...getHighlightRanges(
+			params.highlights.default,
+			lineNumber + params.lineNumbers.offset,
+			lineText,
+			"code-styler-text-highlighted"
+		),
+		...Object.entries(params.highlights.alternative).flatMap(
+			([alternativeHighlight, highlights]: [string, Highlights]) =>
+				getHighlightRanges(
+					highlights,
+					lineNumber + params.lineNumbers.offset,
+					lineText,
+					`code-styler-text-highlighted-${alternativeHighlight
+						.replace(/\s+/g, "-")
+						.toLowerCase()}`
+				)
+		),
+	]
+		.filter((textHighlight) => textHighlight.to > textHighlight.from)
+		.sort(
+			(first, second) => first.from - second.from || first.to - second.to
+		);
+}
+
+function getHighlightRanges(
+	highlights: Highlights,
+	lineNumber: number,
+	lineText: string,
+	className: string
+): TextHighlight[] {
+	const textHighlights: TextHighlight[] = [];
+	highlights.quotedText.forEach((text) => {
+		if (text === "") return;
+		for (
+			let index = lineText.indexOf(text);
+			index !== -1;
+			index = lineText.indexOf(text, index + text.length)
+		)
+			textHighlights.push({
+				from: index,
+				to: index + text.length,
+				className: className,
+			});
+	});
+	highlights.regularExpressions.forEach((regExp) => {
+		for (const match of lineText.matchAll(regExp))
+			textHighlights.push({
+				from: match.index ?? 0,
+				to: (match.index ?? 0) + match[0].length,
+				className: className,
+			});
+	});
+	highlights.columnRanges.forEach((columnRange) => {
+		if (columnRange.lineNumber === lineNumber)
+			textHighlights.push({
+				from: Math.min(columnRange.from, lineText.length),
+				to: Math.min(columnRange.to, lineText.length),
+				className: className,
+			});
+	});
+	return textHighlights;
+}
+
+export function createCalloutBadge(calloutNumber: number): HTMLElement {
+	return createSpan({
+		cls: "code-styler-callout",
+		text: calloutNumber.toString(),
+		attr: { "data-callout": calloutNumber },
+	});
+}
+
+export function toggleCalloutHighlight(event: MouseEvent): void {
+	if (!(event.target instanceof HTMLElement)) return;
+	getCalloutPartners(event.target).forEach((calloutElement) =>
+		calloutElement.classList.toggle(
+			"code-styler-callout-active",
+			event.type === "mouseover"
+		)
+	);
+}
+
+function getCalloutPartners(target: HTMLElement): HTMLElement[] {
+	const calloutBadge = target.closest<HTMLElement>(
+		".code-styler-callout[data-callout]"
+	);
+	if (calloutBadge) {
+		const calloutNumber = parseInt(
+			calloutBadge.getAttribute("data-callout") ?? ""
+		);
+		const codeblockPreElement = calloutBadge.closest("pre");
+		if (codeblockPreElement) {
+			// Reading view
+			const orderedList =
+				codeblockPreElement.parentElement?.nextElementSibling?.querySelector(
+					"ol"
+				);
+			const listItem = orderedList?.children[
+				calloutNumber - (orderedList?.start ?? 1)
+			] as HTMLElement | undefined;
+			return [calloutBadge, ...(listItem ? [listItem] : [])];
+		}
+		let line = calloutBadge.closest(".cm-line")?.nextElementSibling;
+		while (line && !line.classList.contains("HyperMD-codeblock-end"))
+			line = line.nextElementSibling;
+		return [
+			calloutBadge,
+			...getEditingListLines(line?.nextElementSibling ?? null).filter(
+				(listLine) => getEditingListNumber(listLine) === calloutNumber
+			),
+		];
+	}
+	const listItem = target.closest("li");
+	if (listItem && listItem.parentElement instanceof HTMLOListElement) {
+		// Reading view
+		const orderedList = listItem.parentElement;
+		const calloutNumber =
+			Array.from(orderedList.children).indexOf(listItem) +
+			orderedList.start;
+		const codeblockPreElement =
+			orderedList.parentElement?.previousElementSibling?.querySelector(
+				"pre.code-styler-pre"
+			);
+		return [
+			listItem,
+			...Array.from(
+				codeblockPreElement?.querySelectorAll<HTMLElement>(
+					`.code-styler-callout[data-callout="${calloutNumber}"]`
+				) ?? []
+			),
+		];
+	}
+	const listLine = target.closest<HTMLElement>(".HyperMD-list-line");
+	const calloutNumber = listLine ? getEditingListNumber(listLine) : null;
+	if (!listLine || calloutNumber === null) return [];
+	let line = listLine.previousElementSibling;
+	while (line?.classList.contains("HyperMD-list-line"))
+		line = line.previousElementSibling;
+	if (!line?.classList.contains("HyperMD-codeblock-end")) return [];
+	const calloutBadges: HTMLElement[] = [];
+	for (
+		line = line.previousElementSibling;
+		line && !line.classList.contains("HyperMD-codeblock-begin");
+		line = line.previousElementSibling
+	)
+		calloutBadges.push(
+			...Array.from(
+				line.querySelectorAll<HTMLElement>(
+					`.code-styler-callout[data-callout="${calloutNumber}"]`
+				)
+			)
+		);
+	return [listLine, ...calloutBadges];
+}
+
+function getEditingListLines(line: Element | null): HTMLElement[] {
+	const listLines: HTMLElement[] = [];
+	while (line instanceof HTMLElement && getEditingListNumber(line) !== null) {
+		listLines.push(line);
+		line = line.nextElementSibling;
+	}
+	return listLines;
+}
+
+function getEditingListNumber(line: HTMLElement): number | null {
+	const listNumber = parseInt(
+		line.querySelector(".cm-formatting-list-ol")?.textContent ?? ""
+	);
+	return isNaN(listNumber) ? null : listNumber;
+}
+
+export function createCaption(params: CodeblockParameters): HTMLElement {
+	const captionContainer = createDiv({ cls: "code-styler-caption" });
+	captionContainer.createSpan({
+		cls: "code-styler-caption-label",
+		text: `${getListingText(params.caption.number)}:`,
+	});
+	captionContainer.createSpan({ text: ` ${params.caption.text}` });
+	return captionContainer;
+}
+
+export function getListingText(listingNumber: number): string {
+	return `Listing ${listingNumber}`;
+}
+
+export function getThemeClass(themeName: string): string {
+	return `code-styler-theme-${themeName.replace(/\s+/g, "-").toLowerCase()}`;
+}
+
+export function getHighlightColourVariables(
+	codeblockParameters: CodeblockParameters
+): Record<string, string> {
+	return Object.entries(codeblockParameters.highlights.colours).reduce(
+		(result: Record<string, string>, [name, colour]: [string, string]) => {
+			result[
+				`--code-styler-${
+					name === "hl"
+						? "default"
+						: name.replace(/\s+/g, "-").toLowerCase()
+				}-highlight-colour`
+			] = colour.startsWith("--") ? `var(${colour})` : colour;
+			return result;
+		},
+		{}
+	);
+}
+
+export function getElisionText(hiddenLineCount: number): string {
+	return `⋯ ${hiddenLineCount} line${
+		hiddenLineCount === 1 ? "" : "s"
+	} hidden`;
+}
+
+export function getDiffLineClass(diffMarker: DiffMarker): string[] {
+	if (diffMarker === "+") return ["code-styler-line-added"];
+	if (diffMarker === "-") return ["code-styler-line-removed"];
+	return [];
+}
@@ -0,0 +1,181 @@
+import { Notice, TFile } from "obsidian";
+import Pickr from "@simonwep/pickr";
+
+import CodeStylerPlugin from "./main";
+import { COLOUR_REGEX, CSS } from "./Settings";
+import { getColour } from "./SettingsTab";
+
+export interface ColourMatch {
+	from: number;
+	to: number;
+	value: string;
+}
+
+export interface ColourPosition {
+	line: number;
+	from: number;
+}
+
+export function getColourMatches(text: string): ColourMatch[] {
+	return Array.from(text.matchAll(COLOUR_REGEX)).map((colourMatch) => ({
+		from: colourMatch.index ?? 0,
+		to: (colourMatch.index ?? 0) + colourMatch[0].length,
+		value: colourMatch[0],
+	}));
+}
+
+export function createColourSwatch(
+	value: string,
+	saveColour?: (colour: string) => void
+): HTMLElement {
+	const swatch = createSpan({
+		cls: "code-styler-colour-swatch",
+		attr: { "aria-label": value },
+	});
+	swatch.style.setProperty("--code-styler-swatch-colour", value);
+	if (typeof saveColour === "undefined") return swatch;
+	swatch.classList.add("code-styler-colour-swatch-editable");
+	swatch.addEventListener("click", (event) => {
+		event.preventDefault();
+		event.stopPropagation(); // Prevent copying inline code
+		if (!swatch.classList.contains("code-styler-colour-picking"))
+			openColourPicker(swatch, value, saveColour);
+	});
+	return swatch;
+}
+
+export function insertColourSwatches(
+	element: HTMLElement,
+	saveColour?: (value: string, occurrence: number, colour: string) => void
+): void {
+	if (element.querySelector(".code-styler-colour-swatch")) return;
+	const textNodes: Text[] = [];
+	const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+	while (walker.nextNode())
+		if (
+			!walker.currentNode.parentElement?.closest(
+				".code-styler-inline-opener, .code-styler-inline-copy-button"
+			)
+		)
+			textNodes.push(walker.currentNode as Text);
+	const text = textNodes.map((textNode) => textNode.data).join("");
+	const occurrences: Record<string, number> = {};
+	getColourMatches(text)
+		.map((colourMatch) => {
+			const occurrence = occurrences[colourMatch.value] ?? 0;
+			occurrences[colourMatch.value] = occurrence + 1;
+			return { ...colourMatch, occurrence: occurrence };
+		})
+		.reverse()
+		.forEach((colourMatch) => {
+			let position = 0;
+			const textNode = textNodes.find((textNode) => {
+				position += textNode.length;
+				return colourMatch.from < position;
+			});
+			if (typeof textNode === "undefined") return;
+			const saveSwatchColour = (colour: string) =>
+				saveColour?.(colourMatch.value, colourMatch.occurrence, colour);
+			textNode.parentNode?.insertBefore(
+				createColourSwatch(
+					colourMatch.value,
+					saveColour && saveSwatchColour
+				),
+				textNode.splitText(
+					colourMatch.from - (position - textNode.length)
+				)
+			); // Matches are inserted in reverse so earlier offsets are unchanged
+		});
+}
+
+export async function replaceColour(
+	sourcePath: string,
+	position: ColourPosition,
+	value: string,
+	occurrence: number,
+	colour: string,
+	plugin: CodeStylerPlugin
+): Promise<void> {
+	const file = plugin.app.vault.getAbstractFileByPath(sourcePath);
+	if (!(file instanceof TFile)) return;
+	let replaced = false;
+	await plugin.app.vault.process(file, (data) => {
+		const lines = data.split("\n");
+		const line = lines?.[position.line];
+		if (typeof line === "undefined") return data;
+		const colourMatch = getColourMatches(line.slice(position.from)).filter(
+			(colourMatch) => colourMatch.value === value
+		)?.[occurrence];
+		if (typeof colourMatch === "undefined") return data;
+		lines[position.line] =
+			line.slice(0, position.from + colourMatch.from) +
+			colour +
+			line.slice(position.from + colourMatch.to);
+		replaced = true;
+		return lines.join("\n");
+	});
+	if (!replaced) new Notice(`Could not find ${value} in ${file.basename}`);
+}
+
+function openColourPicker(
+	swatch: HTMLElement,
+	value: string,
+	saveColour: (colour: string) => void
+): void {
+	swatch.classList.add("code-styler-colour-picking");
+	const pickr = new Pickr({
+		el: swatch,
+		useAsButton: true,
+		theme: "nano",
+		default: getSwatchColour(value),
+		position: "bottom-start",
+		lockOpacity: false,
+		components: {
+			preview: true,
+			hue: true,
+			opacity: true,
+			interaction: {
+				hex: true,
+				rgba: true,
+				hsla: false,
+				input: true,
+				cancel: true,
+				save: true,
+			},
+		},
+		i18n: {
+			"ui:dialog": "Colour picker dialog",
+			"btn:swatch": "Colour swatch",
+			"btn:last-color": "Use previous colour",
+		},
+	});
+	pickr
+		.on("init", (instance: Pickr) => {
+			instance.show();
+		})
+		.on("save", (colour: Pickr.HSVaColor | null, instance: Pickr) => {
+			if (colour !== null) saveColour(formatColour(colour, value));
+			instance.hide();
+		})
+		.on("cancel", (instance: Pickr) => {
+			instance.hide();
+		})
+		.on("hide", (instance: Pickr) => {
+			swatch.classList.remove("code-styler-colour-picking");
+			setTimeout(() => instance.destroyAndRemove()); // Wait for Pickr to finish hiding
+		});
+}
+
+function getSwatchColour(value: string): string {
+	const variableMatch = /^var\((--[\w-]+)\)$/.exec(value);
+	if (!variableMatch) return value;
+	return getColour(variableMatch[1] as CSS); // Resolve CSS variables to hex
+}
+
+function formatColour(colour: Pickr.HSVaColor, value: string): string {
+	if (/^rgb/i.test(value)) return colour.toRGBA().toString(0);
+	if (/^hsl/i.test(value)) return colour.toHSLA().toString(0);
+	const hexColour = colour.toHEXA().toString();
+	if (value !== value.toUpperCase()) return hexColour.toLowerCase(); // Keep the case of hex values
+	return hexColour;
+}
@@ -20,6 +20,7 @@ import {
 	StateEffect,
 	StateEffectType,
 	Range,
+	RangeSet,
 	RangeSetBuilder,
 	Transaction,
 	Line,
@@ -27,33 +28,64 @@ import {
 	Compartment,
 } from "@codemirror/state";
 import { syntaxTree, tokenClassNodeProp } from "@codemirror/language";
+import { Diagnostic, linter } from "@codemirror/lint";
 import { SyntaxNodeRef } from "@lezer/common";
 
 import {
 	CodeStylerSettings,
 	CodeStylerThemeSettings,
+	KEYBOARD_LANGUAGE,
 	SPECIAL_LANGUAGES,
 } from "./Settings";
 import {
 	CodeblockParameters,
+	LineNumberEnds,
+	continueLineNumbers,
+	getListingNumbers,
+	groupCodeblocks,
+	numberCaptions,
+	getCallout,
+	getDiffMarker,
+	getDiffResult,
+	getDefaultParameters,
+	isFileRuleIgnored,
 	parseCodeblockParameters,
 	testOpeningLine,
 	trimParameterLine,
 	isCodeblockIgnored,
+	isCodeblockWhitelisted,
 	isLanguageIgnored,
 } from "./Parsing/CodeblockParsing";
 import {
 	InlineCodeParameters,
 	parseInlineCode,
+	parseInlineCodeAttributes,
 } from "./Parsing/InlineCodeParsing";
 import {
+	copyText,
+	createCalloutBadge,
+	createCaption,
 	createHeader,
+	createInlineCopyButton,
 	createInlineOpener,
+	createKeyboardKeys,
+	getDiffLineClass,
+	getElisionText,
+	getHighlightColourVariables,
+	getInlineCopy,
 	getLanguageIcon,
+	getLineAnnotations,
 	getLineClass,
+	getListingText,
+	getSelectedTab,
+	getTextHighlights,
+	getThemeClass,
 	isHeaderHidden,
+	setSelectedTab,
 } from "./CodeblockDecorating";
 import CodeStylerPlugin from "./main";
+import { copyCodeblockLink } from "./Linking";
+import { createColourSwatch, getColourMatches } from "./ColourSwatches";
 import { addReferenceSyntaxHighlight } from "./SyntaxHighlighting";
 
 interface SettingsState {
@@ -84,6 +116,31 @@ export function createCodeblockCodeMirrorExtensions(
 		},
 		{
 			eventHandlers: {
+				mousedown: function (event: MouseEvent) {
+					if (
+						(event.target as HTMLElement).closest(
+							".code-styler-colour-swatch"
+						)
+					)
+						return false; // Swatches open a colour picker
+					const copyElement = (event.target as HTMLElement).closest(
+						".code-styler-inline-copy"
+					) as HTMLElement | null;
+					if (
+						!copyElement ||
+						event.button !== 0 ||
+						event.altKey ||
+						event.ctrlKey ||
+						event.metaKey
+					)
+						return false; // Modifier clicks edit the inline code
+					event.preventDefault();
+					copyText(
+						copyElement.getAttribute("data-code-styler-copy") ?? "",
+						copyElement
+					);
+					return true;
+				},
 				click: function (event: MouseEvent, view: EditorView) {
 					if (
 						(event.target as HTMLElement).classList.contains(
@@ -116,14 +173,14 @@ export function createCodeblockCodeMirrorExtensions(
 			);
 			const toIgnore = isSourceMode(update.state);
 			const fileIgnore =
-				isFileIgnored(update.state) &&
+				isFileIgnored(update.state, plugin) &&
 				!(
 					Array.isArray(livePreviewExtensions) &&
 					livePreviewExtensions.length === 0
 				);
 			const fileUnignore =
 				!toIgnore &&
-				!isFileIgnored(update.state) &&
+				!isFileIgnored(update.state, plugin) &&
 				Array.isArray(livePreviewExtensions) &&
 				livePreviewExtensions.length === 0;
 			if (
@@ -131,16 +188,22 @@ export function createCodeblockCodeMirrorExtensions(
 				fileIgnore ||
 				fileUnignore
 			) {
+				const livePreviewDecorations = [
+					headerDecorations,
+					lineDecorations,
+					foldDecorations,
+					hiddenDecorations,
+					revealedElisions,
+					elisionDecorations,
+					tabDecorations,
+					captionDecorations,
+					crossReferenceDecorations,
+					colourSwatchDecorations,
+					parameterLinter,
+				];
 				update.view.dispatch({
 					effects: livePreviewCompartment.reconfigure(
-						toIgnore || fileIgnore
-							? []
-							: [
-									headerDecorations,
-									lineDecorations,
-									foldDecorations,
-									hiddenDecorations,
-							  ]
+						toIgnore || fileIgnore ? [] : livePreviewDecorations
 					),
 				});
 				if (!toIgnore && !fileIgnore)
@@ -152,19 +215,21 @@ export function createCodeblockCodeMirrorExtensions(
 		(update: ViewUpdate) => {
 			const ignoreExtensions = ignoreCompartment.get(update.state);
 			const fileIgnore =
-				isFileIgnored(update.state) &&
+				isFileIgnored(update.state, plugin) &&
 				!(
 					Array.isArray(ignoreExtensions) &&
 					ignoreExtensions.length === 0
 				);
 			const fileUnignore =
-				!isFileIgnored(update.state) &&
+				!isFileIgnored(update.state, plugin) &&
 				Array.isArray(ignoreExtensions) &&
 				ignoreExtensions.length === 0;
 			if (fileIgnore || fileUnignore)
 				update.view.dispatch({
 					effects: ignoreCompartment.reconfigure(
-						fileIgnore ? [] : inlineDecorations
+						fileIgnore
+							? []
+							: [inlineDecorations, inlineCopyDecorations]
 					),
 				});
 		}
@@ -323,6 +388,129 @@ export function createCodeblockCodeMirrorExtensions(
 			return value;
 		},
 	});
+	const revealedElisions = StateField.define<DecorationSet>({
+		create(): DecorationSet {
+			return Decoration.none;
+		},
+		update(value: DecorationSet, transaction: Transaction): DecorationSet {
+			return value.map(transaction.changes).update({
+				add: transaction.effects
+					.filter((effect) => effect.is(revealElision))
+					.map((effect) =>
+						Decoration.mark({}).range(
+							effect.value.from,
+							effect.value.to
+						)
+					),
+				sort: true,
+			});
+		},
+	});
+	const flashedLines = StateField.define<DecorationSet>({
+		create(): DecorationSet {
+			return Decoration.none;
+		},
+		update(value: DecorationSet, transaction: Transaction): DecorationSet {
+			value = value.map(transaction.changes);
+			for (const effect of transaction.effects) {
+				if (!effect.is(flashLine)) continue;
+				if (effect.value === null) value = Decoration.none;
+				else
+					value = Decoration.set(
+						Decoration.line({
+							class: "code-styler-line-flash",
+						}).range(effect.value)
+					);
+			}
+			return value;
+		},
+		provide(field: StateField<DecorationSet>): Extension {
+			return EditorView.decorations.from(field);
+		},
+	});
+	const tabDecorations = StateField.define<DecorationSet>({
+		create(state: EditorState): DecorationSet {
+			return buildTabDecorations(state);
+		},
+		update(value: DecorationSet, transaction: Transaction): DecorationSet {
+			return buildTabDecorations(transaction.state);
+		},
+		provide(field: StateField<DecorationSet>): Extension {
+			return EditorView.decorations.from(field);
+		},
+	});
+	const captionDecorations = StateField.define<DecorationSet>({
+		create(state: EditorState): DecorationSet {
+			return buildCaptionDecorations(state);
+		},
+		update(value: DecorationSet, transaction: Transaction): DecorationSet {
+			return buildCaptionDecorations(transaction.state);
+		},
+		provide(field: StateField<DecorationSet>): Extension {
+			return EditorView.decorations.from(field);
+		},
+	});
+	const crossReferenceDecorations = StateField.define<DecorationSet>({
+		create(state: EditorState): DecorationSet {
+			return buildCrossReferenceDecorations(state);
+		},
+		update(value: DecorationSet, transaction: Transaction): DecorationSet {
+			if (
+				transaction.docChanged ||
+				transaction.selection ||
+				transaction.effects.some((effect) => effect.is(rerender))
+			)
+				return buildCrossReferenceDecorations(transaction.state); // Selections reveal the source of cross references
+			return value.map(transaction.changes);
+		},
+		provide(field: StateField<DecorationSet>): Extension {
+			return EditorView.decorations.from(field);
+		},
+	});
+	const elisionDecorations = StateField.define<DecorationSet>({
+		create(state: EditorState): DecorationSet {
+			return buildElisionDecorations(state);
+		},
+		update(value: DecorationSet, transaction: Transaction): DecorationSet {
+			if (
+				transaction.docChanged ||
+				transaction.selection ||
+				transaction.effects.some(
+					(effect) => effect.is(revealElision) || effect.is(rerender)
+				)
+			)
+				return buildElisionDecorations(transaction.state); // Selections reveal hidden lines
+			return value.map(transaction.changes);
+		},
+		provide(field: StateField<DecorationSet>): Extension {
+			return EditorView.decorations.from(field);
+		},
+	});
+	const parameterLinter = linter((view: EditorView) =>
+		buildParameterDiagnostics(view.state)
+	);
+	const colourSwatchDecorations = StateField.define<DecorationSet>({
+		create(state: EditorState): DecorationSet {
+			return buildColourSwatchDecorations(state);
+		},
+		update(value: DecorationSet, transaction: Transaction): DecorationSet {
+			return buildColourSwatchDecorations(transaction.state);
+		},
+		provide(field: StateField<DecorationSet>): Extension {
+			return EditorView.decorations.from(field);
+		},
+	});
+	const inlineCopyDecorations = StateField.define<DecorationSet>({
+		create(state: EditorState): DecorationSet {
+			return buildInlineCopyDecorations(state);
+		},
+		update(value: DecorationSet, transaction: Transaction): DecorationSet {
+			return buildInlineCopyDecorations(transaction.state);
+		},
+		provide(field: StateField<DecorationSet>): Extension {
+			return EditorView.decorations.from(field);
+		},
+	});
 	const inlineDecorations = StateField.define<DecorationSet>({
 		create(state: EditorState): DecorationSet {
 			return buildInlineDecorations(state);
@@ -485,18 +673,21 @@ export function createCodeblockCodeMirrorExtensions(
 		codeblockParameters: CodeblockParameters;
 		maxLineNum: number;
 		empty: boolean;
+		sourcePath: string;
 
 		constructor(
 			lineNumber: number,
 			codeblockParameters: CodeblockParameters,
 			maxLineNum: number,
-			empty: boolean = false
+			empty: boolean = false,
+			sourcePath: string = ""
 		) {
 			super();
 			this.lineNumber = lineNumber;
 			this.codeblockParameters = codeblockParameters;
 			this.maxLineNum = maxLineNum;
 			this.empty = empty;
+			this.sourcePath = sourcePath;
 		}
 
 		eq(other: LineNumberWidget): boolean {
@@ -509,12 +700,14 @@ export function createCodeblockCodeMirrorExtensions(
 				this.codeblockParameters.lineNumbers.offset ===
 					other.codeblockParameters.lineNumbers.offset &&
 				this.maxLineNum === other.maxLineNum &&
-				this.empty === other.empty
+				this.empty === other.empty &&
+				this.codeblockParameters.id === other.codeblockParameters.id &&
+				this.sourcePath === other.sourcePath
 			);
 		}
 
 		toDOM(): HTMLElement {
-			return createSpan({
+			const lineNumberElement = createSpan({
 				attr: {
 					style:
 						this.maxLineNum.toString().length >
@@ -533,6 +726,22 @@ export function createCodeblockCodeMirrorExtensions(
 							this.codeblockParameters.lineNumbers.offset
 					  ).toString(),
 			});
+			if (!this.empty && this.codeblockParameters.id) {
+				lineNumberElement.classList.add(
+					"code-styler-line-number-linked"
+				);
+				lineNumberElement.addEventListener("mousedown", (event) => {
+					event.preventDefault();
+					copyCodeblockLink(
+						this.sourcePath,
+						this.codeblockParameters.id,
+						this.lineNumber +
+							this.codeblockParameters.lineNumbers.offset,
+						plugin
+					);
+				});
+			}
+			return lineNumberElement;
 		}
 	}
 	class CommentLinkWidget extends WidgetType {
@@ -574,13 +783,15 @@ export function createCodeblockCodeMirrorExtensions(
 		iconURL: string | undefined;
 		folded: boolean;
 		hidden: boolean;
+		tabHidden: boolean;
 
 		constructor(
 			codeblockParameters: CodeblockParameters,
 			folded: boolean,
 			themeSettings: CodeStylerThemeSettings,
 			sourcePath: string,
-			plugin: CodeStylerPlugin
+			plugin: CodeStylerPlugin,
+			tabHidden: boolean
 		) {
 			super();
 			this.codeblockParameters = structuredClone(codeblockParameters);
@@ -597,6 +808,7 @@ export function createCodeblockCodeMirrorExtensions(
 				this.themeSettings,
 				this.iconURL
 			);
+			this.tabHidden = tabHidden;
 		}
 
 		eq(other: HeaderWidget): boolean {
@@ -618,7 +830,12 @@ export function createCodeblockCodeMirrorExtensions(
 				this.themeSettings.header.languageTag.display ===
 					other.themeSettings.header.languageTag.display &&
 				this.folded === other.folded &&
-				this.iconURL === other.iconURL
+				this.iconURL === other.iconURL &&
+				this.codeblockParameters.group.index ===
+					other.codeblockParameters.group.index &&
+				JSON.stringify(this.codeblockParameters.group.tabs) ===
+					JSON.stringify(other.codeblockParameters.group.tabs) &&
+				this.tabHidden === other.tabHidden
 			);
 		}
 
@@ -627,8 +844,23 @@ export function createCodeblockCodeMirrorExtensions(
 				this.codeblockParameters,
 				this.themeSettings,
 				this.sourcePath,
-				this.plugin
+				this.plugin,
+				(index) => {
+					setSelectedTab(
+						this.codeblockParameters.group,
+						index,
+						this.sourcePath,
+						this.plugin
+					);
+					view.dispatch({
+						effects: rerender.of({
+							pos: view.posAtDOM(headerContainer),
+						}),
+					});
+				}
 			);
+			if (this.tabHidden)
+				headerContainer.classList.add("code-styler-tab-hidden");
 			if (this.codeblockParameters.language !== "")
 				headerContainer.classList.add(
 					`language-${this.codeblockParameters.language}`
@@ -654,6 +886,230 @@ export function createCodeblockCodeMirrorExtensions(
 			return headerContainer;
 		}
 	}
+	class CaptionWidget extends WidgetType {
+		codeblockParameters: CodeblockParameters;
+
+		constructor(codeblockParameters: CodeblockParameters) {
+			super();
+			this.codeblockParameters = codeblockParameters;
+		}
+
+		eq(other: CaptionWidget): boolean {
+			return (
+				this.codeblockParameters.caption.text ===
+					other.codeblockParameters.caption.text &&
+				this.codeblockParameters.caption.number ===
+					other.codeblockParameters.caption.number
+			);
+		}
+
+		toDOM(): HTMLElement {
+			return createCaption(this.codeblockParameters);
+		}
+	}
+	class CrossReferenceWidget extends WidgetType {
+		id: string;
+		listingNumber: number;
+		sourcePath: string;
+
+		constructor(id: string, listingNumber: number, sourcePath: string) {
+			super();
+			this.id = id;
+			this.listingNumber = listingNumber;
+			this.sourcePath = sourcePath;
+		}
+
+		eq(other: CrossReferenceWidget): boolean {
+			return (
+				this.id === other.id &&
+				this.listingNumber === other.listingNumber &&
+				this.sourcePath === other.sourcePath
+			);
+		}
+
+		toDOM(): HTMLElement {
+			const crossReferenceElement = createEl("a", {
+				cls: "internal-link code-styler-cross-reference",
+				text: getListingText(this.listingNumber),
+				attr: { "data-href": `#Listing:${this.id}` },
+			});
+			crossReferenceElement.addEventListener("click", (event) => {
+				event.preventDefault();
+				plugin.app.workspace.openLinkText(
+					`#Listing:${this.id}`,
+					this.sourcePath
+				);
+			});
+			return crossReferenceElement;
+		}
+	}
+	class CalloutWidget extends WidgetType {
+		calloutNumbers: number[];
+
+		constructor(calloutNumbers: number[]) {
+			super();
+			this.calloutNumbers = calloutNumbers;
+		}
+
+		eq(other: CalloutWidget): boolean {
+			return (
+				this.calloutNumbers.join(",") === other.calloutNumbers.join(",")
+			);
+		}
+
+		toDOM(): HTMLElement {
+			const calloutContainer = createSpan();
+			this.calloutNumbers.forEach((calloutNumber) =>
+				calloutContainer.appendChild(createCalloutBadge(calloutNumber))
+			);
+			return calloutContainer;
+		}
+	}
+	class AnnotationWidget extends WidgetType {
+		annotations: string[];
+
+		constructor(annotations: string[]) {
+			super();
+			this.annotations = annotations;
+		}
+
+		eq(other: AnnotationWidget): boolean {
+			return (
+				this.annotations.join("\n") === other.annotations.join("\n")
+			);
+		}
+
+		toDOM(): HTMLElement {
+			const annotationContainer = createSpan({
+				cls: "code-styler-annotation",
+			});
+			annotationContainer.createSpan({
+				cls: "code-styler-annotation-marker",
+			});
+			annotationContainer.createSpan({
+				cls: "code-styler-annotation-text",
+				text: this.annotations.join(" · "),
+			});
+			return annotationContainer;
+		}
+	}
+	class ElisionWidget extends WidgetType {
+		hiddenLineCount: number;
+
+		constructor(hiddenLineCount: number) {
+			super();
+			this.hiddenLineCount = hiddenLineCount;
+		}
+
+		eq(other: ElisionWidget): boolean {
+			return this.hiddenLineCount === other.hiddenLineCount;
+		}
+
+		toDOM(view: EditorView): HTMLElement {
+			const elisionRow = createDiv({
+				cls: "code-styler-elision",
+				text: getElisionText(this.hiddenLineCount),
+			});
+			elisionRow.addEventListener("mousedown", (event) => {
+				event.preventDefault();
+				const position = view.posAtDOM(elisionRow);
+				view.state
+					.field(elisionDecorations)
+					.between(position, position, (from, to) => {
+						view.dispatch({
+							effects: revealElision.of({ from: from, to: to }),
+						});
+						return false;
+					});
+			});
+			return elisionRow;
+		}
+	}
+	class CopyDiffResultWidget extends WidgetType {
+		eq(): boolean {
+			return true;
+		}
+
+		toDOM(view: EditorView): HTMLElement {
+			const copyResultButton = createSpan({
+				cls: "code-styler-copy-result",
+				text: "Copy result",
+			});
+			copyResultButton.addEventListener("mousedown", (event) => {
+				event.preventDefault();
+				codeblockFoldCallback(
+					view.posAtDOM(copyResultButton),
+					view.state,
+					(foldStart, foldEnd) =>
+						copyText(
+							getDiffResult(
+								view.state
+									.sliceDoc(foldStart.to + 1, foldEnd.from - 1)
+									.split("\n")
+							),
+							copyResultButton
+						)
+				);
+			});
+			return copyResultButton;
+		}
+	}
+	class InlineCopyWidget extends WidgetType {
+		text: string;
+
+		constructor(text: string) {
+			super();
+			this.text = text;
+		}
+
+		eq(other: InlineCopyWidget): boolean {
+			return this.text === other.text;
+		}
+
+		toDOM(): HTMLElement {
+			return createInlineCopyButton(this.text);
+		}
+	}
+	class ColourSwatchWidget extends WidgetType {
+		value: string;
+
+		constructor(value: string) {
+			super();
+			this.value = value;
+		}
+
+		eq(other: ColourSwatchWidget): boolean {
+			return this.value === other.value;
+		}
+
+		toDOM(view: EditorView): HTMLElement {
+			const swatch = createColourSwatch(this.value, (colour) => {
+				const from = view.posAtDOM(swatch);
+				const to = from + this.value.length;
+				if (view.state.sliceDoc(from, to) === this.value)
+					view.dispatch({
+						changes: { from: from, to: to, insert: colour },
+					});
+			});
+			return swatch;
+		}
+	}
+	class KeyboardWidget extends WidgetType {
+		text: string;
+
+		constructor(text: string) {
+			super();
+			this.text = text;
+		}
+
+		eq(other: KeyboardWidget): boolean {
+			return this.text === other.text;
+		}
+
+		toDOM(): HTMLElement {
+			return createKeyboardKeys(this.text);
+		}
+	}
 	class OpenerWidget extends WidgetType {
 		inlineCodeParameters: InlineCodeParameters;
 		plugin: CodeStylerPlugin;
@@ -704,60 +1160,314 @@ export function createCodeblockCodeMirrorExtensions(
 	) {
 		const builder = new RangeSetBuilder<Decoration>();
 		const sourcePath = state.field(editorInfoField)?.file?.path ?? "";
-		let codeblockParameters: CodeblockParameters;
+		const lineNumberEnds: LineNumberEnds = {
+			previous: 0,
+			ids: {},
+		};
+		const codeblocks: {
+			startLine: Line;
+			endLine: Line | null;
+			codeblockParameters: CodeblockParameters;
+		}[] = [];
 		syntaxTree(state).iterate({
 			enter: (syntaxNode) => {
 				if (syntaxNode.type.name.includes("HyperMD-codeblock-begin")) {
 					const startLine = state.doc.lineAt(syntaxNode.from);
-					codeblockParameters = parseCodeblockParameters(
+					const codeblockParameters = parseCodeblockParameters(
 						trimParameterLine(startLine.text.toString()),
-						settings.currentTheme
+						settings.currentTheme,
+						getFileDefaultParameters(state, plugin)
 					);
 					if (
-						!isLanguageIgnored(
-							codeblockParameters.language,
-							settings.excludedLanguages
-						) &&
-						!isCodeblockIgnored(
+						isCodeblockIgnored(
 							codeblockParameters.language,
 							settings.processedCodeblocksWhitelist
-						) &&
-						!codeblockParameters.ignore
-					) {
-						if (
-							!SPECIAL_LANGUAGES.some((regExp) =>
-								new RegExp(regExp).test(
-									codeblockParameters.language
-								)
-							)
 						)
-							builder.add(
-								startLine.from,
-								startLine.from,
-								Decoration.widget({
-									widget: new HeaderWidget(
-										codeblockParameters,
-										foldValue(
-											startLine.from,
-											codeblockParameters.fold.enabled
-										),
-										settings.currentTheme.settings,
-										sourcePath,
-										plugin
-									),
-									block: true,
-									side: -1,
-								})
-							);
-					}
+					)
+						return;
+					let endLine: Line | null = null;
+					codeblockFoldCallback(
+						startLine.from,
+						state,
+						(foldStart, foldEnd) => (endLine = foldEnd)
+					);
+					codeblocks.push({
+						startLine: startLine,
+						endLine: endLine,
+						codeblockParameters: codeblockParameters,
+					});
 				}
 			},
 		});
+		codeblocks.forEach(({ startLine, endLine, codeblockParameters }) => {
+			codeblockParameters.group.startLine = startLine.number - 1;
+			codeblockParameters.group.endLine =
+				endLine === null ? -1 : endLine.number - 1;
+		});
+		groupCodeblocks(
+			codeblocks.map(({ codeblockParameters }) => codeblockParameters),
+			state.doc.toString().split("\n")
+		);
+		numberCaptions(
+			codeblocks.map(({ codeblockParameters }) => codeblockParameters)
+		);
+		codeblocks.forEach(({ startLine, endLine, codeblockParameters }) => {
+			if (
+				isLanguageIgnored(
+					codeblockParameters.language,
+					settings.excludedLanguages
+				) ||
+				codeblockParameters.ignore
+			)
+				return;
+			if (endLine !== null)
+				continueLineNumbers(
+					codeblockParameters,
+					endLine.number - startLine.number - 1,
+					lineNumberEnds
+				);
+			if (
+				SPECIAL_LANGUAGES.some((regExp) =>
+					new RegExp(regExp).test(codeblockParameters.language)
+				)
+			)
+				return;
+			builder.add(
+				startLine.from,
+				startLine.from,
+				Decoration.widget({
+					widget: new HeaderWidget(
+						codeblockParameters,
+						foldValue(
+							startLine.from,
+							codeblockParameters.fold.enabled
+						),
+						settings.currentTheme.settings,
+						sourcePath,
+						plugin,
+						codeblockParameters.group.tabs.length !== 0 &&
+							codeblockParameters.group.index !==
+								getSelectedTab(
+									codeblockParameters.group,
+									sourcePath,
+									plugin
+								) &&
+							!rangeInteraction(
+								startLine.from,
+								endLine?.to ?? startLine.to,
+								state.selection.main
+							)
+					),
+					block: true,
+					side: -1,
+				})
+			);
+		});
+		return builder.finish();
+	}
+
+	function buildTabDecorations(state: EditorState): DecorationSet {
+		const builder = new RangeSetBuilder<Decoration>();
+		for (
+			let iter = (
+				state.field(headerDecorations, false) ?? Decoration.none
+			).iter();
+			iter.value !== null;
+			iter.next()
+		) {
+			if (!iter.value.spec.widget.tabHidden) continue;
+			codeblockFoldCallback(iter.from, state, (foldStart, foldEnd) =>
+				builder.add(
+					foldStart.from,
+					foldEnd.to,
+					Decoration.replace({ block: true })
+				)
+			);
+		}
+		return builder.finish();
+	}
+
+	function buildCaptionDecorations(state: EditorState): DecorationSet {
+		const builder = new RangeSetBuilder<Decoration>();
+		for (
+			let iter = (
+				state.field(headerDecorations, false) ?? Decoration.none
+			).iter();
+			iter.value !== null;
+			iter.next()
+		) {
+			const { codeblockParameters, tabHidden } = iter.value.spec.widget;
+			if (codeblockParameters.caption.number === 0 || tabHidden) continue;
+			const captionDecoration = (side: number) =>
+				Decoration.widget({
+					widget: new CaptionWidget(codeblockParameters),
+					block: true,
+					side: side,
+				});
+			if (settings.captionPosition === "above")
+				builder.add(iter.from, iter.from, captionDecoration(-2));
+			else
+				codeblockFoldCallback(iter.from, state, (foldStart, foldEnd) =>
+					builder.add(foldEnd.to, foldEnd.to, captionDecoration(1))
+				);
+		}
+		return builder.finish();
+	}
+
+	function buildCrossReferenceDecorations(state: EditorState): DecorationSet {
+		const builder = new RangeSetBuilder<Decoration>();
+		const crossReferences = Array.from(
+			state.doc
+				.toString()
+				.matchAll(
+					/(?<![\w@])@lst:([a-zA-Z0-9-]+)|\[\[#Listing:([a-zA-Z0-9-]+)\]\]/g
+				)
+		);
+		if (crossReferences.length === 0) return builder.finish();
+		const sourcePath = state.field(editorInfoField)?.file?.path ?? "";
+		const listingNumbers = getListingNumbers(
+			state.doc.toString().split("\n"),
+			plugin,
+			sourcePath
+		);
+		crossReferences.forEach((crossReferenceMatch) => {
+			const id = crossReferenceMatch[1] ?? crossReferenceMatch[2];
+			const from = crossReferenceMatch.index ?? 0;
+			const to = from + crossReferenceMatch[0].length;
+			if (
+				!(id in listingNumbers) ||
+				/code/.test(
+					syntaxTree(state).resolveInner(from, 1).type.name
+				) ||
+				state.selection.ranges.some((range) =>
+					rangeInteraction(from, to, range)
+				)
+			)
+				return;
+			builder.add(
+				from,
+				to,
+				Decoration.replace({
+					widget: new CrossReferenceWidget(
+						id,
+						listingNumbers[id],
+						sourcePath
+					),
+				})
+			);
+		});
+		return builder.finish();
+	}
+
+	function buildParameterDiagnostics(state: EditorState): Diagnostic[] {
+		const diagnostics: Diagnostic[] = [];
+		syntaxTree(state).iterate({
+			enter: (syntaxNode) => {
+				if (!syntaxNode.type.name.includes("HyperMD-codeblock-begin"))
+					return;
+				const startLine = state.doc.lineAt(syntaxNode.from);
+				const lineText = startLine.text.toString();
+				const codeblockParameters = parseCodeblockParameters(
+					trimParameterLine(lineText),
+					settings.currentTheme,
+					getFileDefaultParameters(state, plugin)
+				);
+				if (
+					isLanguageIgnored(
+						codeblockParameters.language,
+						settings.excludedLanguages
+					) ||
+					isCodeblockIgnored(
+						codeblockParameters.language,
+						settings.processedCodeblocksWhitelist
+					) ||
+					codeblockParameters.ignore
+				)
+					return;
+				const indentation =
+					lineText.length - lineText.trimStart().length;
+				const reportUnknown =
+					settings.reportUnknownParameters &&
+					!isCodeblockWhitelisted(
+						codeblockParameters.language,
+						settings.processedCodeblocksWhitelist
+					); // Other plugins may use their own parameters
+				codeblockParameters.warnings
+					.filter((warning) => reportUnknown || !warning.unknown)
+					.forEach((warning) =>
+						diagnostics.push({
+							from: startLine.from + indentation + warning.from,
+							to: Math.min(
+								startLine.from + indentation + warning.to,
+								startLine.to
+							),
+							severity: warning.unknown ? "info" : "warning",
+							source: "Code Styler",
+							message: warning.message,
+						})
+					);
+			},
+		});
+		return diagnostics;
+	}
+
+	function buildElisionDecorations(state: EditorState): DecorationSet {
+		const builder = new RangeSetBuilder<Decoration>();
+		const revealed = state.field(revealedElisions, false);
+		for (
+			let iter = (
+				state.field(headerDecorations, false) ?? Decoration.none
+			).iter();
+			iter.value !== null;
+			iter.next()
+		) {
+			const codeblockParameters: CodeblockParameters =
+				iter.value.spec.widget.codeblockParameters;
+			if (codeblockParameters.hide.length === 0) continue;
+			codeblockFoldCallback(iter.from, state, (foldStart, foldEnd) => {
+				codeblockParameters.hide.forEach((range) => {
+					const firstLine = Math.max(
+						foldStart.number +
+							range.start -
+							codeblockParameters.lineNumbers.offset,
+						foldStart.number + 1
+					);
+					const lastLine = Math.min(
+						foldStart.number +
+							range.end -
+							codeblockParameters.lineNumbers.offset,
+						foldEnd.number - 1
+					);
+					if (firstLine > lastLine) return;
+					const from = state.doc.line(firstLine).from;
+					const to = state.doc.line(lastLine).to;
+					let isRevealed = state.selection.ranges.some((range) =>
+						rangeInteraction(from, to, range)
+					); // Show hidden lines while editing them
+					revealed?.between(from, to, (revealedFrom, revealedTo) => {
+						if (revealedFrom === from && revealedTo === to)
+							isRevealed = true;
+					});
+					if (!isRevealed)
+						builder.add(
+							from,
+							to,
+							Decoration.replace({
+								block: true,
+								widget: new ElisionWidget(
+									lastLine - firstLine + 1
+								),
+							})
+						);
+				});
+			});
+		}
 		return builder.finish();
 	}
 
 	function buildLineDecorations(state: EditorState): DecorationSet {
 		const builder = new RangeSetBuilder<Decoration>();
+		const lineContentBuilder = new RangeSetBuilder<Decoration>();
 		const sourcePath = state.field(editorInfoField)?.file?.path ?? "";
 		const sourceMode = isSourceMode(state);
 		for (
@@ -808,7 +1518,10 @@ export function createCodeblockCodeMirrorExtensions(
 									)
 								)
 								? ""
-								: ` language-${codeblockParameters.language}`),
+								: ` language-${codeblockParameters.language}`) +
+							(codeblockParameters.theme
+								? ` ${getThemeClass(codeblockParameters.theme)}`
+								: ""),
 					},
 				})
 			);
@@ -825,6 +1538,31 @@ export function createCodeblockCodeMirrorExtensions(
 						),
 					})
 				);
+			if (codeblockParameters.diff.enabled)
+				builder.add(
+					foldStart.to,
+					foldStart.to,
+					Decoration.widget({
+						widget: new CopyDiffResultWidget(),
+						side: 1,
+					})
+				);
+			const indentation =
+				foldStart.text.length - foldStart.text.trimStart().length;
+			[...codeblockParameters.tokens]
+				.sort((first, second) => first.from - second.from)
+				.forEach((token) => {
+					const from = foldStart.from + indentation + token.from;
+					const to = foldStart.from + indentation + token.to;
+					if (to <= foldStart.to)
+						lineContentBuilder.add(
+							from,
+							to,
+							Decoration.mark({
+								class: `code-styler-parameter-${token.type}`,
+							})
+						);
+				});
 			for (let i = foldStart.number + 1; i <= state.doc.lines; i++) {
 				const line = state.doc?.line(i);
 				if (!line) break;
@@ -833,16 +1571,33 @@ export function createCodeblockCodeMirrorExtensions(
 					foldEnd = line;
 					break;
 				}
+				const diffMarker = codeblockParameters.diff.enabled
+					? getDiffMarker(lineText)
+					: "";
+				const lineClasses = getLineClass(
+					codeblockParameters,
+					i - foldStart.number,
+					line.text
+				).concat(getDiffLineClass(diffMarker));
 				builder.add(
 					line.from,
 					line.from,
 					Decoration.line({
 						attributes: {
-							style: `--line-number-gutter-width: ${
-								lineNumberMargin
-									? lineNumberMargin + "px"
-									: "calc(var(--line-number-gutter-min-width) - 12px)"
-							};`,
+							style:
+								`--line-number-gutter-width: ${
+									lineNumberMargin
+										? lineNumberMargin + "px"
+										: "calc(var(--line-number-gutter-min-width) - 12px)"
+								};` +
+								Object.entries(
+									getHighlightColourVariables(codeblockParameters)
+								)
+									.map(
+										([cssVariable, colour]) =>
+											`${cssVariable}: ${colour};`
+									)
+									.join(""),
 							class:
 								(SPECIAL_LANGUAGES.some((regExp) =>
 									new RegExp(regExp).test(
@@ -851,11 +1606,7 @@ export function createCodeblockCodeMirrorExtensions(
 									)
 								)
 									? "code-styler-line"
-									: getLineClass(
-											codeblockParameters,
-											i - foldStart.number,
-											line.text
-									  ).join(" ")) +
+									: lineClasses.join(" ")) +
 								(["^$"]
 									.concat(SPECIAL_LANGUAGES)
 									.some((regExp) =>
@@ -864,7 +1615,10 @@ export function createCodeblockCodeMirrorExtensions(
 										)
 									)
 									? ""
-									: ` language-${codeblockParameters.language}`),
+									: ` language-${codeblockParameters.language}`) +
+								(codeblockParameters.theme
+									? ` ${getThemeClass(codeblockParameters.theme)}`
+									: ""),
 						},
 					})
 				);
@@ -876,10 +1630,82 @@ export function createCodeblockCodeMirrorExtensions(
 							widget: new LineNumberWidget(
 								i - foldStart.number,
 								codeblockParameters,
-								maxLineNum
+								maxLineNum,
+								false,
+								sourcePath
 							),
 						})
 					);
+				const callout = getCallout(
+					lineText,
+					codeblockParameters.language
+				);
+				const showCallout =
+					callout !== null &&
+					!sourceMode &&
+					!state.selection.ranges.some((range: SelectionRange) =>
+						rangeInteraction(
+							line.from + callout.from,
+							line.to,
+							range
+						)
+					);
+				const codeFrom = line.from + diffMarker.length; // Text offsets exclude the diff marker
+				getTextHighlights(
+					codeblockParameters,
+					i - foldStart.number,
+					lineText.slice(diffMarker.length)
+				)
+					.filter(
+						(textHighlight) =>
+							!showCallout ||
+							codeFrom + textHighlight.from < line.from + callout.from
+					)
+					.forEach((textHighlight) =>
+						lineContentBuilder.add(
+							codeFrom + textHighlight.from,
+							codeFrom + textHighlight.to,
+							Decoration.mark({ class: textHighlight.className })
+						)
+					);
+				if (showCallout)
+					lineContentBuilder.add(
+						line.from + callout.from,
+						line.to,
+						Decoration.replace({
+							widget: new CalloutWidget(callout.numbers),
+						})
+					);
+				const annotations = getLineAnnotations(
+					codeblockParameters,
+					i - foldStart.number,
+					lineText
+				);
+				if (annotations.length !== 0)
+					lineContentBuilder.add(
+						line.to,
+						line.to,
+						Decoration.widget({
+							widget: new AnnotationWidget(annotations),
+							side: 1,
+						})
+					);
+				if (diffMarker !== "")
+					builder.add(
+						line.from,
+						line.from + 1,
+						Decoration.mark({ class: "code-styler-diff-marker" })
+					);
+				if (codeblockParameters.diff.languagePrefixed || diffMarker !== "")
+					modeHighlight(
+						{
+							start: line.from + diffMarker.length,
+							text: lineText.slice(diffMarker.length),
+							language: codeblockParameters.language,
+						},
+						builder
+					); // Highlight the code without its diff marker
+				if (codeblockParameters.diff.languagePrefixed) continue; // Fence language is not recognised by the editor
 				if (codeblockParameters.language === "markdown") continue;
 				convertCommentLinks(
 					state,
@@ -910,7 +1736,10 @@ export function createCodeblockCodeMirrorExtensions(
 										)
 									)
 									? ""
-									: ` language-${codeblockParameters.language}`),
+									: ` language-${codeblockParameters.language}`) +
+								(codeblockParameters.theme
+									? ` ${getThemeClass(codeblockParameters.theme)}`
+									: ""),
 						},
 					})
 				);
@@ -929,7 +1758,10 @@ export function createCodeblockCodeMirrorExtensions(
 					);
 			}
 		}
-		return builder.finish();
+		return RangeSet.join([
+			builder.finish(),
+			lineContentBuilder.finish(),
+		]);
 	}
 
 	function convertCommentLinks(
@@ -1060,6 +1892,86 @@ export function createCodeblockCodeMirrorExtensions(
 		return builder.finish();
 	}
 
+	function buildColourSwatchDecorations(state: EditorState): DecorationSet {
+		const decorations: Range<Decoration>[] = [];
+		const addColourSwatches = (from: number, text: string) =>
+			getColourMatches(text).forEach((colourMatch) =>
+				decorations.push(
+					Decoration.widget({
+						widget: new ColourSwatchWidget(colourMatch.value),
+						side: -1,
+					}).range(from + colourMatch.from)
+				)
+			);
+		for (
+			let iter = (
+				state.field(headerDecorations, false) ?? Decoration.none
+			).iter();
+			iter.value !== null;
+			iter.next()
+		)
+			codeblockFoldCallback(iter.from, state, (foldStart, foldEnd) => {
+				for (let i = foldStart.number + 1; i < foldEnd.number; i++) {
+					const line = state.doc.line(i);
+					addColourSwatches(line.from, line.text);
+				}
+			});
+		syntaxTree(state).iterate({
+			enter: (syntaxNode) => {
+				const ranges = getInlineCodeRanges(state, syntaxNode);
+				if (
+					ranges !== null &&
+					ranges.parameters.value?.language !== KEYBOARD_LANGUAGE
+				)
+					addColourSwatches(ranges.text.from, ranges.text.value);
+			},
+		});
+		return Decoration.set(decorations, true);
+	}
+
+	function buildInlineCopyDecorations(state: EditorState): DecorationSet {
+		const builder = new RangeSetBuilder<Decoration>();
+		if (isSourceMode(state)) return builder.finish();
+		syntaxTree(state).iterate({
+			enter: (syntaxNode) => {
+				const ranges = getInlineCodeRanges(state, syntaxNode);
+				if (ranges === null) return;
+				const { parameters, text, section } = ranges;
+				const copy = getInlineCopy(
+					parameters.value,
+					settings.currentTheme.settings
+				);
+				if (
+					copy === "none" ||
+					text.from === text.to ||
+					state.selection.ranges.some((range: SelectionRange) =>
+						rangeInteraction(section.from, section.to, range)
+					)
+				)
+					return;
+				if (copy === "click")
+					builder.add(
+						text.from,
+						text.to,
+						Decoration.mark({
+							class: "code-styler-inline-copy",
+							attributes: { "data-code-styler-copy": text.value },
+						})
+					);
+				else
+					builder.add(
+						section.to,
+						section.to,
+						Decoration.widget({
+							widget: new InlineCopyWidget(text.value),
+							side: 1,
+						})
+					);
+			},
+		});
+		return builder.finish();
+	}
+
 	function addStyledInlineDecorations(
 		state: EditorState,
 		builder: RangeSetBuilder<Decoration>,
@@ -1068,43 +1980,52 @@ export function createCodeblockCodeMirrorExtensions(
 		section: { from: number; to: number },
 		sourceMode: boolean
 	) {
-		if (
+		const revealed =
 			sourceMode ||
 			state.selection.ranges.some((range: SelectionRange) =>
 				rangeInteraction(section.from, section.to, range)
-			)
-		)
-			builder.add(
-				parameters.from,
-				parameters.to,
-				Decoration.mark({ class: "code-styler-inline-parameters" })
 			);
-		else {
-			builder.add(parameters.from, parameters.to, Decoration.replace({}));
-			if (
-				parameters.value?.title ||
+		const parametersDecoration = revealed
+			? Decoration.mark({ class: "code-styler-inline-parameters" })
+			: Decoration.replace({});
+		const trailing = parameters.from >= text.to; // Attribute list form
+		if (!trailing)
+			builder.add(parameters.from, parameters.to, parametersDecoration);
+		if (
+			!revealed &&
+			(parameters.value?.title ||
 				(parameters.value?.icon &&
 					getLanguageIcon(
 						parameters.value.language,
 						plugin.languageIcons
-					))
-			)
-				builder.add(
-					parameters.from,
-					parameters.from,
-					Decoration.replace({
-						widget: new OpenerWidget(parameters.value, plugin),
-					})
-				);
-		}
-		modeHighlight(
-			{
-				start: parameters.to,
-				text: text.value,
-				language: parameters.value.language,
-			},
-			builder
-		);
+					)))
+		)
+			builder.add(
+				text.from,
+				text.from,
+				Decoration.replace({
+					widget: new OpenerWidget(parameters.value, plugin),
+				})
+			);
+		if (parameters.value.language !== KEYBOARD_LANGUAGE)
+			modeHighlight(
+				{
+					start: text.from,
+					text: text.value,
+					language: parameters.value.language,
+				},
+				builder
+			);
+		else if (!revealed && text.from !== text.to)
+			builder.add(
+				text.from,
+				text.to,
+				Decoration.replace({
+					widget: new KeyboardWidget(text.value),
+				})
+			);
+		if (trailing)
+			builder.add(parameters.from, parameters.to, parametersDecoration);
 	}
 
 	function convertReaddFold(
@@ -1213,6 +2134,7 @@ export function createCodeblockCodeMirrorExtensions(
 		settingsChangeExtender(),
 		settingsState,
 		charWidthState,
+		flashedLines,
 		livePreviewCompartment.of([]),
 		ignoreCompartment.of([]),
 	];
@@ -1229,7 +2151,10 @@ const hideFold: StateEffectType<Range<Decoration>> = StateEffect.define();
 const unhideFold: StateEffectType<Range<Decoration>> = StateEffect.define();
 const removeFold: StateEffectType<string[]> = StateEffect.define();
 const foldAll: StateEffectType<{ toFold?: boolean }> = StateEffect.define();
+const revealElision: StateEffectType<{ from: number; to: number }> =
+	StateEffect.define();
 export const rerender: StateEffectType<{ pos: number }> = StateEffect.define();
+export const flashLine: StateEffectType<number | null> = StateEffect.define();
 
 function codeblockFoldCallback(
 	startPosition: number,
@@ -1269,6 +2194,29 @@ function getInlineCodeRanges(
 		syntaxNode.to
 	);
 	const { parameters, text } = parseInlineCode(inlineCodeText);
+	if (parameters === null && text === inlineCodeText) {
+		const sectionEnd = syntaxNode.to + delimiterSize;
+		const trailingAttributes = parseInlineCodeAttributes(
+			state.doc.sliceString(sectionEnd, state.doc.lineAt(sectionEnd).to)
+		);
+		if (trailingAttributes !== null)
+			return {
+				parameters: {
+					from: sectionEnd,
+					to: sectionEnd + trailingAttributes.length,
+					value: trailingAttributes.parameters,
+				},
+				text: {
+					from: syntaxNode.from,
+					to: syntaxNode.to,
+					value: text,
+				},
+				section: {
+					from: syntaxNode.from - delimiterSize,
+					to: sectionEnd + trailingAttributes.length,
+				},
+			};
+	}
 	const parametersLength = inlineCodeText.lastIndexOf(text);
 	return {
 		parameters: {
@@ -1277,7 +2225,7 @@ function getInlineCodeRanges(
 			value: parameters,
 		},
 		text: {
-			from: syntaxNode.from + parametersLength + 1,
+			from: syntaxNode.from + parametersLength,
 			to: syntaxNode.to,
 			value: text,
 		},
@@ -1447,17 +2395,29 @@ function rangeInteraction(
 	);
 }
 
-function isFileIgnored(state: EditorState): boolean {
+function isFileIgnored(state: EditorState, plugin: CodeStylerPlugin): boolean {
 	const filePath = state.field(editorInfoField)?.file?.path;
 	if (typeof filePath !== "undefined")
 		return (
-			this.app.metadataCache
+			plugin.app.metadataCache
 				.getCache(filePath)
-				?.frontmatter?.["code-styler-ignore"]?.toString() === "true"
+				?.frontmatter?.["code-styler-ignore"]?.toString() === "true" ||
+			isFileRuleIgnored(filePath, plugin)
 		);
 	return false;
 }
 
+function getFileDefaultParameters(
+	state: EditorState,
+	plugin: CodeStylerPlugin
+): (language: string) => string[] {
+	const filePath = state.field(editorInfoField)?.file?.path;
+	return (language) =>
+		typeof filePath !== "undefined"
+			? getDefaultParameters(filePath, language, plugin)
+			: [];
+}
+
 function isSourceMode(state: EditorState): boolean {
 	return !state.field(editorLivePreviewField);
 }
@@ -0,0 +1,135 @@
+import { MarkdownView, Notice, TFile } from "obsidian";
+import { EditorView } from "@codemirror/view";
+
+import CodeStylerPlugin from "./main";
+import { FLASH_LENGTH } from "./Settings";
+import { flashLine } from "./EditingView";
+import {
+	CodeblockParameters,
+	parseCodeblockParameters,
+	testOpeningLine,
+} from "./Parsing/CodeblockParsing";
+
+export async function copyCodeblockLink(
+	sourcePath: string,
+	id: string,
+	lineNumber: number,
+	plugin: CodeStylerPlugin
+): Promise<void> {
+	const file = plugin.app.vault.getAbstractFileByPath(sourcePath);
+	if (!(file instanceof TFile)) return;
+	await navigator.clipboard.writeText(
+		plugin.app.fileManager.generateMarkdownLink(
+			file,
+			"",
+			`#^${id}:${lineNumber}`
+		)
+	);
+	new Notice(`Copied link to line ${lineNumber}`);
+}
+
+export function followCodeblockLink(
+	view: MarkdownView,
+	subpath: string,
+	plugin: CodeStylerPlugin
+): void {
+	const linkMatch = /^#(?:\^|Listing:)([a-zA-Z0-9-]+?)(?::(\d+))?$/.exec(
+		subpath
+	);
+	if (!linkMatch || !view.data.includes(linkMatch[1])) return;
+	if (
+		subpath.startsWith("#^") &&
+		view.file &&
+		plugin.app.metadataCache.getFileCache(view.file)?.blocks?.[
+			linkMatch[1].toLowerCase()
+		]
+	)
+		return; // Obsidian block references are followed by Obsidian
+	const codeblock = findCodeblock(view.data.split("\n"), linkMatch[1], plugin);
+	if (!codeblock) return;
+	const lineNumber = linkMatch[2] ? parseInt(linkMatch[2]) : null;
+	if (view.getMode() === "preview")
+		followReadingViewLink(view, codeblock.startLine, linkMatch[1], lineNumber);
+	else
+		followEditingViewLink(
+			view,
+			codeblock.startLine,
+			codeblock.parameters,
+			lineNumber
+		);
+}
+
+function findCodeblock(
+	lines: string[],
+	id: string,
+	plugin: CodeStylerPlugin
+): { startLine: number; parameters: CodeblockParameters } | null {
+	for (const [index, line] of lines.entries()) {
+		if (!line.includes(id) || !testOpeningLine(line)) continue;
+		const codeblockParameters = parseCodeblockParameters(
+			line.replace(/^\s*(?:>\s*)*/, ""),
+			plugin.settings.currentTheme
+		);
+		if (codeblockParameters.id === id)
+			return { startLine: index, parameters: codeblockParameters };
+	}
+	return null;
+}
+
+function followReadingViewLink(
+	view: MarkdownView,
+	startLine: number,
+	id: string,
+	lineNumber: number | null
+): void {
+	view.previewMode.applyScroll(startLine); // Render the codeblock section
+	let attempts = 0;
+	const interval = window.setInterval(() => {
+		const codeblockPreElement = view.previewMode.containerEl.querySelector(
+			`pre[data-code-styler-id="${id}"]`
+		);
+		if (!codeblockPreElement && ++attempts < 20) return;
+		window.clearInterval(interval);
+		const lineSelector = `[data-line-number="${lineNumber}"]`;
+		const target =
+			lineNumber === null
+				? codeblockPreElement
+				: codeblockPreElement?.querySelector(lineSelector);
+		if (!target) return;
+		target.scrollIntoView({ block: "center" });
+		if (lineNumber === null) return;
+		target.classList.add("code-styler-line-flash");
+		setTimeout(
+			() => target.classList.remove("code-styler-line-flash"),
+			FLASH_LENGTH
+		);
+	}, 100);
+}
+
+function followEditingViewLink(
+	view: MarkdownView,
+	startLine: number,
+	codeblockParameters: CodeblockParameters,
+	lineNumber: number | null
+): void {
+	//@ts-expect-error Undocumented Obsidian API
+	const cmView: EditorView = view.editor.cm;
+	const codeLine =
+		lineNumber === null
+			? 0
+			: Math.max(lineNumber - codeblockParameters.lineNumbers.offset, 0);
+	const line = cmView.state.doc.line(
+		Math.min(startLine + 1 + codeLine, cmView.state.doc.lines)
+	);
+	cmView.dispatch({
+		effects: [
+			EditorView.scrollIntoView(line.from, { y: "center" }),
+			...(lineNumber === null ? [] : [flashLine.of(line.from)]),
+		],
+	});
+	if (lineNumber !== null)
+		setTimeout(
+			() => cmView.dispatch({ effects: flashLine.of(null) }),
+			FLASH_LENGTH
+		);
+}
@@ -0,0 +1,193 @@
+import {
+	App,
+	Editor,
+	EditorPosition,
+	EditorSuggest,
+	EditorSuggestContext,
+	EditorSuggestTriggerInfo,
+	TFile,
+} from "obsidian";
+
+import CodeStylerPlugin from "./main";
+import { LANGUAGE_NAMES, PARAMETERS } from "./Settings";
+import { getLanguageIcon } from "./CodeblockDecorating";
+
+interface ParameterSuggestion {
+	text: string;
+	display: string;
+	description?: string;
+	icon?: string;
+}
+
+const BARE_PARAMETERS = ["fold", "wrap", "unwrap", "diff", "ignore"];
+const PARAMETER_VALUES: Record<string, string[]> = {
+	fold: ["true", "false"],
+	ln: ["true", "false", "continue"],
+	unwrap: ["true", "false", "inactive"],
+};
+const PARAMETER_DESCRIPTIONS: Record<string, string> = {
+	title: "Title shown in the header",
+	fold: "Fold the codeblock",
+	ln: "Line numbering: true, false, continue or a starting line number",
+	wrap: "Always wrap lines",
+	unwrap: "Unwrap lines: true, false or inactive",
+	diff: "Show as a diff",
+	hide: "Collapse line ranges",
+	note: "Annotate a line",
+	theme: "Use the colours of a theme",
+	id: "Id used to link to the codeblock",
+	group: "Show consecutive codeblocks of a group as tabs",
+	tabs: "Show consecutive codeblocks of a group as tabs",
+	caption: "Numbered listing caption",
+	ignore: "Do not style the codeblock",
+	hl: "Highlight lines or text",
+	ref: "Reference to a note or link",
+};
+
+export class ParameterSuggest extends EditorSuggest<ParameterSuggestion> {
+	plugin: CodeStylerPlugin;
+
+	constructor(app: App, plugin: CodeStylerPlugin) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onTrigger(
+		cursor: EditorPosition,
+		editor: Editor
+	): EditorSuggestTriggerInfo | null {
+		const fenceMatch = /^\s*(?:>\s*)*(?:```+|~~~+)(\S*)(.*)$/.exec(
+			editor.getLine(cursor.line).slice(0, cursor.ch)
+		);
+		if (!fenceMatch || (fenceMatch[1] === "" && fenceMatch[2] === ""))
+			return null; // Closing fences have no parameters
+		const query =
+			fenceMatch[2] === ""
+				? fenceMatch[1]
+				: /\S*$/.exec(fenceMatch[2])?.[0] ?? "";
+		return {
+			start: { line: cursor.line, ch: cursor.ch - query.length },
+			end: cursor,
+			query: query,
+		};
+	}
+
+	getSuggestions(context: EditorSuggestContext): ParameterSuggestion[] {
+		if (context.start.ch === getLanguageStart(context))
+			return this.getLanguageSuggestions(context.query.toLowerCase());
+		const referenceMatch = /^(?:ref|reference)[:=](?:\[\[)?(.*)$/.exec(
+			context.query
+		);
+		if (referenceMatch)
+			return this.getReferenceSuggestions(
+				referenceMatch[1].toLowerCase()
+			);
+		const valueMatch = /^(\w+)[:=](.*)$/.exec(context.query);
+		if (valueMatch)
+			return (PARAMETER_VALUES?.[valueMatch[1]] ?? [])
+				.filter((value) => value.startsWith(valueMatch[2]))
+				.map((value) => ({
+					text: `${valueMatch[1]}:${value}`,
+					display: `${valueMatch[1]}:${value}`,
+				}));
+		return this.getParameterSuggestions(context.query.toLowerCase());
+	}
+
+	renderSuggestion(suggestion: ParameterSuggestion, el: HTMLElement): void {
+		el.classList.add("code-styler-suggestion");
+		if (suggestion.icon)
+			el.createEl("img", {
+				cls: "code-styler-suggestion-icon",
+				attr: { src: suggestion.icon },
+			});
+		el.createSpan({ text: suggestion.display });
+		if (suggestion.description)
+			el.createSpan({
+				cls: "code-styler-suggestion-description",
+				text: suggestion.description,
+			});
+	}
+
+	selectSuggestion(suggestion: ParameterSuggestion): void {
+		if (!this.context) return;
+		this.context.editor.replaceRange(
+			suggestion.text,
+			this.context.start,
+			this.context.end
+		);
+		this.context.editor.setCursor({
+			line: this.context.start.line,
+			ch: this.context.start.ch + suggestion.text.length,
+		});
+	}
+
+	getLanguageSuggestions(query: string): ParameterSuggestion[] {
+		return Object.entries(LANGUAGE_NAMES)
+			.filter(
+				([languageName, languageDisplayName]) =>
+					languageName.startsWith(query) ||
+					languageDisplayName.toLowerCase().startsWith(query)
+			)
+			.sort(
+				([firstName], [secondName]) =>
+					Number(!firstName.startsWith(query)) -
+						Number(!secondName.startsWith(query)) ||
+					firstName.length - secondName.length
+			)
+			.map(([languageName, languageDisplayName]) => ({
+				text: languageName,
+				display: languageName,
+				description:
+					languageDisplayName !== languageName
+						? languageDisplayName
+						: undefined,
+				icon: getLanguageIcon(
+					languageName,
+					this.plugin.languageIcons
+				),
+			}));
+	}
+
+	getParameterSuggestions(query: string): ParameterSuggestion[] {
+		const parameterSuggestions: ParameterSuggestion[] = PARAMETERS.concat(
+			"hl",
+			"ref"
+		).map((parameter) => ({
+			text: BARE_PARAMETERS.includes(parameter)
+				? parameter
+				: `${parameter}:`,
+			display: parameter,
+			description: PARAMETER_DESCRIPTIONS?.[parameter],
+		}));
+		const highlightSuggestions: ParameterSuggestion[] = Object.keys(
+			this.plugin.settings.currentTheme.colours.light.highlights
+				.alternativeHighlights
+		).map((alternativeHighlight) => ({
+			text: `${alternativeHighlight}:`,
+			display: alternativeHighlight,
+			description: "Alternative highlight",
+		}));
+		return parameterSuggestions
+			.concat(highlightSuggestions)
+			.filter((suggestion) => suggestion.display.startsWith(query));
+	}
+
+	getReferenceSuggestions(query: string): ParameterSuggestion[] {
+		return this.plugin.app.vault
+			.getFiles()
+			.filter((file: TFile) => file.path.toLowerCase().includes(query))
+			.slice(0, this.limit)
+			.map((file: TFile) => ({
+				text: `ref:[[${file.path}]]`,
+				display: file.path,
+			}));
+	}
+}
+
+function getLanguageStart(context: EditorSuggestContext): number {
+	return (
+		/^\s*(?:>\s*)*(?:```+|~~~+)/.exec(
+			context.editor.getLine(context.start.line)
+		)?.[0].length ?? -1
+	);
+}
@@ -1,16 +1,31 @@
-import { MarkdownPreviewRenderer, Plugin } from "obsidian";
+import {
+	FrontMatterCache,
+	MarkdownPreviewRenderer,
+	Plugin,
+	getAllTags,
+} from "obsidian";
 import { basename } from "path";
 
 import CodeStylerPlugin from "src/main";
-import { CodeStylerTheme, EXECUTE_CODE_SUPPORTED_LANGUAGES } from "../Settings";
+import {
+	CodeStylerRule,
+	CodeStylerTheme,
+	EXECUTE_CODE_SUPPORTED_LANGUAGES,
+	isCodeStylerRule,
+	LANGUAGE_NAMES,
+	LANGUAGES,
+	PARAMETERS,
+} from "../Settings";
 import { CodeBlockArgs, getArgs } from "../External/ExecuteCode/CodeBlockArgs";
 import { getRef } from "src/Referencing";
-import { ExtRef } from "./ReferenceParsing";
+import { ExtRef, escapeRegExp } from "./ReferenceParsing";
 
 export interface CodeblockParameters {
 	language: string;
 	title: string;
 	reference: string;
+	id: string;
+	theme: string;
 	fold: {
 		enabled: boolean;
 		placeholder: string;
@@ -19,6 +34,10 @@ export interface CodeblockParameters {
 		alwaysEnabled: boolean;
 		alwaysDisabled: boolean;
 		offset: number;
+		continuation: {
+			enabled: boolean;
+			id: string;
+		};
 	};
 	lineUnwrap: {
 		alwaysEnabled: boolean;
@@ -28,15 +47,112 @@ export interface CodeblockParameters {
 	highlights: {
 		default: Highlights;
 		alternative: Record<string, Highlights>;
+		colours: Record<string, string>;
+	};
+	diff: {
+		enabled: boolean;
+		languagePrefixed: boolean;
 	};
+	group: CodeblockGroup;
+	caption: {
+		text: string;
+		number: number;
+	};
+	hide: LineRange[];
+	annotations: Annotation[];
 	ignore: boolean;
 	externalReference?: ExtRef;
+	warnings: ParameterWarning[];
+	tokens: ParameterToken[];
+}
+
+export type DiffMarker = "+" | "-" | "";
+
+export interface Callout {
+	from: number;
+	to: number;
+	numbers: number[];
+}
+
+export interface ParameterWarning {
+	from: number;
+	to: number;
+	message: string;
+	unknown?: boolean; // Unrecognised tokens may belong to other plugins
+}
+
+export interface LineNumberEnds {
+	previous: number;
+	ids: Record<string, number>;
+}
+
+export interface CodeblockGroup {
+	name: string;
+	index: number;
+	tabs: CodeblockTab[];
+	startLine: number; // Document lines of the fences, -1 when unknown
+	endLine: number;
+}
+
+export interface CodeblockTab {
+	title: string;
+	language: string;
+}
+
+export interface ParameterToken {
+	from: number;
+	to: number;
+	type:
+		| "language"
+		| "key"
+		| "separator"
+		| "value"
+		| "range"
+		| "string"
+		| "regex"
+		| "link";
 }
 
 export interface Highlights {
 	lineNumbers: number[];
 	plainText: string[];
+	quotedText: string[];
 	regularExpressions: RegExp[];
+	columnRanges: ColumnRange[];
+}
+
+export interface Annotation {
+	lineNumbers: number[];
+	regularExpression?: RegExp;
+	text: string;
+}
+
+export interface LineRange {
+	start: number;
+	end: number;
+}
+
+export interface ColumnRange {
+	lineNumber: number;
+	from: number;
+	to: number;
+}
+
+const PANDOC_ATTRIBUTE_REGEX =
+	/([.#])([^\s.#{}="']+)|([\w-]+)=(?:"([^"]*)"|'([^']*)'|([^\s"'{}]+))/g;
+
+const documentCodeblocks: Record<
+	string,
+	{ text: string; codeblocksParameters: Map<number, CodeblockParameters> }
+> = {}; // Latest parse of each note
+
+interface PandocAttribute {
+	type: "class" | "id" | "pair";
+	key: string;
+	value: string;
+	position: number;
+	from: number;
+	to: number;
 }
 
 interface ExternalPlugin extends Plugin {
@@ -62,7 +178,9 @@ interface ExternalPlugin extends Plugin {
 export async function parseCodeblockSource(
 	codeSection: string[],
 	plugin: CodeStylerPlugin,
-	sourcePath?: string
+	sourcePath?: string,
+	lineNumberEnds: LineNumberEnds = { previous: 0, ids: {} },
+	startLine = 0
 ): Promise<{
 	codeblocksParameters: CodeblockParameters[];
 	nested: boolean;
@@ -71,7 +189,11 @@ export async function parseCodeblockSource(
 	const plugins: Record<string, ExternalPlugin> = plugin.app.plugins.plugins;
 	const admonitions: boolean = "obsidian-admonition" in plugins;
 	const codeblocks: string[][] = [];
-	function parseCodeblockSection(codeSection: string[]): void {
+	const fenceLines: { startLine: number; endLine: number }[] = [];
+	function parseCodeblockSection(
+		codeSection: string[],
+		sectionStart: number
+	): void {
 		if (codeSection.length === 0) return;
 
 		const openingCodeblockLine = getOpeningLine(codeSection);
@@ -93,47 +215,68 @@ export async function parseCodeblockSource(
 		if (
 			!admonitions ||
 			!/^\s*(?:>\s*)*(?:```+|~~~+) *ad-.*$/.test(openingCodeblockLine)
-		)
+		) {
 			codeblocks.push(
 				codeSection.slice(
 					0,
 					openDelimiterIndex + 2 + closeDelimiterIndex
 				)
 			);
-		else
+			fenceLines.push({
+				startLine: sectionStart + openDelimiterIndex,
+				endLine: sectionStart + openDelimiterIndex + 1 + closeDelimiterIndex,
+			});
+		} else
 			parseCodeblockSection(
 				codeSection.slice(
 					openDelimiterIndex + 1,
 					openDelimiterIndex + 1 + closeDelimiterIndex
-				)
+				),
+				sectionStart + openDelimiterIndex + 1
 			);
 
 		parseCodeblockSection(
-			codeSection.slice(openDelimiterIndex + 1 + closeDelimiterIndex + 1)
+			codeSection.slice(openDelimiterIndex + 1 + closeDelimiterIndex + 1),
+			sectionStart + openDelimiterIndex + 1 + closeDelimiterIndex + 1
 		);
 	}
-	parseCodeblockSection(codeSection);
+	parseCodeblockSection(codeSection, startLine);
 	return {
-		codeblocksParameters: await (typeof sourcePath !== "undefined"
-			? parseCodeblocks(codeblocks, plugin, plugins, sourcePath)
-			: parseCodeblocks(codeblocks, plugin, plugins)),
+		codeblocksParameters: await parseCodeblocks(
+			codeblocks,
+			fenceLines,
+			plugin,
+			plugins,
+			lineNumberEnds,
+			sourcePath
+		),
 		nested: codeblocks[0] ? !arraysEqual(codeSection, codeblocks[0]) : true,
 	};
 }
 
 async function parseCodeblocks(
 	codeblocks: string[][],
+	fenceLines: { startLine: number; endLine: number }[],
 	plugin: CodeStylerPlugin,
 	plugins: Record<string, ExternalPlugin>,
+	lineNumberEnds: LineNumberEnds,
 	sourcePath?: string
 ): Promise<CodeblockParameters[]> {
 	const codeblocksParameters: CodeblockParameters[] = [];
-	for (const codeblockLines of codeblocks) {
+	for (const [index, codeblockLines] of codeblocks.entries()) {
 		const codeblockParameters = await (typeof sourcePath !== "undefined"
 			? parseCodeblock(codeblockLines, plugin, plugins, sourcePath)
 			: parseCodeblock(codeblockLines, plugin, plugins));
-		if (codeblockParameters !== null)
-			codeblocksParameters.push(codeblockParameters);
+		if (codeblockParameters === null) continue;
+		codeblockParameters.group.startLine = fenceLines[index].startLine;
+		codeblockParameters.group.endLine = fenceLines[index].endLine;
+		if (isLineNumbered(codeblockParameters, plugin))
+			continueLineNumbers(
+				codeblockParameters,
+				getCodeLineCount(codeblockLines),
+				lineNumberEnds
+			);
+		codeblocksParameters.push(codeblockParameters);
 	}
 	return codeblocksParameters;
 }
@@ -148,7 +291,11 @@ async function parseCodeblock(
 	if (!parameterLine) return null;
 	const codeblockParameters = parseCodeblockParameters(
 		parameterLine,
-		plugin.settings.currentTheme
+		plugin.settings.currentTheme,
+		(language) =>
+			typeof sourcePath !== "undefined"
+				? getDefaultParameters(sourcePath, language, plugin)
+				: []
 	);
 
 	if (
@@ -173,12 +320,15 @@ async function parseCodeblock(
 
 export function parseCodeblockParameters(
 	parameterLine: string,
-	theme: CodeStylerTheme
+	theme: CodeStylerTheme,
+	getDefaults: (language: string) => string[] = () => []
 ): CodeblockParameters {
 	const codeblockParameters: CodeblockParameters = {
 		language: "",
 		title: "",
 		reference: "",
+		id: "",
+		theme: "",
 		fold: {
 			enabled: false,
 			placeholder: "",
@@ -187,6 +337,10 @@ export function parseCodeblockParameters(
 			alwaysEnabled: false,
 			alwaysDisabled: false,
 			offset: 0,
+			continuation: {
+				enabled: false,
+				id: "",
+			},
 		},
 		lineUnwrap: {
 			alwaysEnabled: false,
@@ -197,45 +351,268 @@ export function parseCodeblockParameters(
 			default: {
 				lineNumbers: [],
 				plainText: [],
+				quotedText: [],
 				regularExpressions: [],
+				columnRanges: [],
 			},
 			alternative: {},
+			colours: {},
+		},
+		diff: {
+			enabled: false,
+			languagePrefixed: false,
 		},
+		group: {
+			name: "",
+			index: 0,
+			tabs: [],
+			startLine: -1,
+			endLine: -1,
+		},
+		caption: {
+			text: "",
+			number: 0,
+		},
+		hide: [],
+		annotations: [],
 		ignore: false,
+		warnings: [],
+		tokens: [],
 	};
 
+	let offset = parameterLine.length;
 	if (parameterLine.startsWith("```"))
 		parameterLine = parameterLine.replace(/^```+(?=[^`]|$)/, "");
 	else if (parameterLine.startsWith("~~~"))
 		parameterLine = parameterLine.replace(/^~~~+(?=[^~]|$)/, "");
 	else return codeblockParameters;
+	offset -= parameterLine.length;
+
+	const setLanguage = (language: string) => {
+		codeblockParameters.language = language.toLowerCase();
+		const diffLanguageMatch = /^diff-(.+)$/.exec(
+			codeblockParameters.language
+		);
+		if (diffLanguageMatch) {
+			codeblockParameters.language = diffLanguageMatch[1];
+			codeblockParameters.diff = {
+				enabled: true,
+				languagePrefixed: true,
+			};
+		}
+		getDefaults(codeblockParameters.language).forEach((parameterString) =>
+			parseCodeblockParameterString(
+				parameterString,
+				codeblockParameters,
+				theme,
+				0
+			)
+		);
+		codeblockParameters.warnings = []; // Warnings only refer to the opening line
+	};
+
+	const wrappedAttributes = getPandocAttributes(parameterLine, offset);
+	if (wrappedAttributes) {
+		const languageAttribute = wrappedAttributes.find(
+			(attribute) => attribute.type === "class"
+		);
+		setLanguage(languageAttribute?.key ?? "");
+		wrappedAttributes.forEach((attribute) =>
+			addAttributeTokens(
+				attribute,
+				attribute === languageAttribute,
+				codeblockParameters
+			)
+		);
+		wrappedAttributes
+			.filter((attribute) => attribute !== languageAttribute)
+			.forEach((attribute) =>
+				managePandocAttribute(attribute, codeblockParameters, theme)
+			);
+		return codeblockParameters;
+	}
 
 	const rmdMatch = /^\{(.+)\} *$/.exec(parameterLine);
-	if (rmdMatch) parameterLine = rmdMatch[1];
+	if (rmdMatch) {
+		parameterLine = rmdMatch[1];
+		offset += 1;
+	}
 
 	const languageBreak = parameterLine.indexOf(" ");
-	codeblockParameters.language = parameterLine
-		.slice(0, languageBreak !== -1 ? languageBreak : parameterLine.length)
-		.toLowerCase();
+	setLanguage(
+		parameterLine.slice(
+			0,
+			languageBreak !== -1 ? languageBreak : parameterLine.length
+		)
+	);
+	addToken(
+		codeblockParameters,
+		offset,
+		offset + (languageBreak !== -1 ? languageBreak : parameterLine.length),
+		"language"
+	);
 	if (languageBreak === -1) return codeblockParameters;
 	parameterLine = parameterLine.slice(languageBreak + 1);
-	if (rmdMatch) parameterLine = "title:" + parameterLine;
+	offset += languageBreak + 1;
+	if (rmdMatch) {
+		addToken(
+			codeblockParameters,
+			offset,
+			offset + parameterLine.length,
+			"string"
+		);
+		parameterLine = "title:" + parameterLine;
+		offset -= "title:".length;
+	}
 
-	const parameterStrings = parameterLine.match(
-		/(?:(?:ref|reference|title):(?:\[\[.*?\]\]|\[.*?\]\(.+\))|[^\s"']+|"[^"]*"|'[^']*')+/g
-	);
-	if (!parameterStrings) return codeblockParameters;
+	const trailingAttributes = getPandocAttributes(parameterLine, offset);
+	if (trailingAttributes) {
+		trailingAttributes.forEach((attribute) => {
+			addAttributeTokens(attribute, false, codeblockParameters);
+			managePandocAttribute(attribute, codeblockParameters, theme);
+		});
+		return codeblockParameters;
+	}
 
-	parameterStrings.forEach((parameterString) =>
+	const parameterMatches = [
+		...parameterLine.matchAll(
+			/(?:(?:ref|reference|title):(?:\[\[.*?\]\]|\[.*?\]\(.+\))|[^\s"']+|"[^"]*"|'[^']*')+/g
+		),
+	];
+	let previousEnd = 0;
+	parameterMatches.forEach((parameterMatch) => {
+		const index = parameterMatch.index ?? 0;
+		warnUnmatchedQuotes(
+			parameterLine.slice(previousEnd, index),
+			offset + previousEnd,
+			codeblockParameters
+		);
+		previousEnd = index + parameterMatch[0].length;
+		const leadingComma = parameterMatch[0].startsWith(",") ? 1 : 0;
+		if (!rmdMatch)
+			addParameterTokens(
+				parameterMatch[0].replace(/(?:^,|,$)/g, ""),
+				offset + index + leadingComma,
+				codeblockParameters
+			);
 		parseCodeblockParameterString(
-			parameterString.replace(/(?:^,|,$)/g, ""),
+			parameterMatch[0].replace(/(?:^,|,$)/g, ""),
 			codeblockParameters,
-			theme
-		)
+			theme,
+			offset + index + leadingComma
+		);
+	});
+	warnUnmatchedQuotes(
+		parameterLine.slice(previousEnd),
+		offset + previousEnd,
+		codeblockParameters
 	);
 	return codeblockParameters;
 }
 
+export function getDefaultParameters(
+	sourcePath: string,
+	language: string,
+	plugin: CodeStylerPlugin
+): string[] {
+	return getMatchingRules(sourcePath, plugin, language)
+		.reduce((result: string[], rule: CodeStylerRule) => {
+			result.push(...getParameterDefaults(rule.parameters));
+			if (rule.theme) result.push(`theme:${rule.theme}`);
+			if (rule.ignore) result.push("ignore");
+			return result;
+		}, [])
+		.concat(
+			getFrontmatterParameters(
+				plugin.app.metadataCache.getCache(sourcePath)?.frontmatter
+			)
+		);
+}
+
+export function isFileRuleIgnored(
+	sourcePath: string,
+	plugin: CodeStylerPlugin
+): boolean {
+	return getMatchingRules(sourcePath, plugin).some(
+		(rule) => rule.ignore && !rule.language
+	);
+}
+
+function getMatchingRules(
+	sourcePath: string,
+	plugin: CodeStylerPlugin,
+	language?: string
+): CodeStylerRule[] {
+	if (plugin.settings.rules.length === 0) return [];
+	const cache = plugin.app.metadataCache.getCache(sourcePath);
+	const tags = (cache ? getAllTags(cache) ?? [] : []).map((tag) =>
+		tag.toLowerCase()
+	);
+	return plugin.settings.rules.filter((rule) => {
+		if (!isCodeStylerRule(rule)) return false; // Rules may be edited in data.json directly
+		if (rule.path && !globToRegExp(rule.path).test(sourcePath))
+			return false;
+		if (rule.tag) {
+			const ruleTag = "#" + rule.tag.replace(/^#/, "").toLowerCase();
+			if (
+				!tags.some(
+					(tag) => tag === ruleTag || tag.startsWith(ruleTag + "/")
+				)
+			)
+				return false;
+		}
+		if (rule.language) {
+			if (typeof language === "undefined") return false;
+			try {
+				if (!new RegExp(rule.language).test(language)) return false;
+			} catch {
+				return false;
+			}
+		}
+		return true;
+	});
+}
+
+function globToRegExp(glob: string): RegExp {
+	if (glob.endsWith("/")) glob += "**";
+	return new RegExp(
+		"^" +
+			glob
+				.split("**")
+				.map((part) =>
+					escapeRegExp(part)
+						.replace(/\\\*/g, "[^/]*")
+						.replace(/\\\?/g, "[^/]")
+				)
+				.join(".*") +
+			"(?:/.*)?$" // Folders match the files inside them
+	);
+}
+
+export function getFrontmatterParameters(
+	frontmatter: FrontMatterCache | undefined
+): string[] {
+	return getParameterDefaults(frontmatter?.["code-styler"]);
+}
+
+function getParameterDefaults(defaults: unknown): string[] {
+	if (
+		typeof defaults !== "object" ||
+		defaults === null ||
+		Array.isArray(defaults)
+	)
+		return [];
+	return Object.entries(defaults).reduce(
+		(result: string[], [key, value]: [string, unknown]) => {
+			if (Array.isArray(value)) value = value.join(",");
+			if (["string", "number", "boolean"].includes(typeof value))
+				result.push(`${key}:${value}`);
+			return result;
+		},
+		[]
+	);
+}
+
 async function pluginAdjustParameters(
 	codeblockParameters: CodeblockParameters,
 	plugin: CodeStylerPlugin,
@@ -288,13 +665,31 @@ async function adjustReference(
 	plugin: CodeStylerPlugin
 ): Promise<CodeblockParameters> {
 	const ref = await getRef(lines, sourcePath, plugin);
+	if (typeof ref.openingLine !== "undefined")
+		params = mergeReferencedParameters(
+			params,
+			ref.openingLine,
+			sourcePath,
+			plugin
+		);
 	if (
 		!params.lineNumbers.alwaysDisabled &&
 		!params.lineNumbers.alwaysEnabled
 	) {
 		params.lineNumbers.offset = ref.startLine - 1;
-		params.lineNumbers.alwaysEnabled = ref.startLine !== 1;
+		params.lineNumbers.alwaysEnabled =
+			ref.startLine !== 1 || typeof ref.hidden !== "undefined";
 	}
+	if (typeof ref.hidden !== "undefined")
+		params.hide = params.hide
+			.concat(
+				ref.hidden.map((range) => ({
+					start:
+						range.start - ref.startLine + 1 + params.lineNumbers.offset,
+					end: range.end - ref.startLine + 1 + params.lineNumbers.offset,
+				})) // Convert from file lines to the codeblock's line numbering
+			)
+			.sort((first, second) => first.start - second.start); // Elide the lines between ranges
 	if (params.title === "") {
 		params.title = ref.external?.metadata?.title ?? basename(ref.path);
 	}
@@ -309,6 +704,74 @@ async function adjustReference(
 	return params;
 }
 
+function mergeReferencedParameters(
+	params: CodeblockParameters,
+	openingLine: string,
+	sourcePath: string,
+	plugin: CodeStylerPlugin
+): CodeblockParameters {
+	const referencedParams = parseCodeblockParameters(
+		openingLine,
+		plugin.settings.currentTheme,
+		(language) => getDefaultParameters(sourcePath, language, plugin)
+	);
+	return {
+		...referencedParams,
+		title: params.title || referencedParams.title,
+		reference: params.reference || referencedParams.reference,
+		id: params.id || referencedParams.id,
+		theme: params.theme || referencedParams.theme,
+		fold:
+			params.fold.enabled || params.fold.placeholder !== ""
+				? params.fold
+				: referencedParams.fold,
+		lineNumbers:
+			params.lineNumbers.alwaysEnabled ||
+			params.lineNumbers.alwaysDisabled ||
+			params.lineNumbers.continuation.enabled
+				? params.lineNumbers
+				: referencedParams.lineNumbers,
+		lineUnwrap:
+			params.lineUnwrap.alwaysEnabled || params.lineUnwrap.alwaysDisabled
+				? params.lineUnwrap
+				: referencedParams.lineUnwrap,
+		highlights: {
+			default: hasHighlights(params.highlights.default)
+				? params.highlights.default
+				: referencedParams.highlights.default,
+			alternative: {
+				...referencedParams.highlights.alternative,
+				...params.highlights.alternative,
+			},
+			colours: {
+				...referencedParams.highlights.colours,
+				...params.highlights.colours,
+			},
+		},
+		diff: params.diff.enabled ? params.diff : referencedParams.diff,
+		group: params.group.name !== "" ? params.group : referencedParams.group,
+		caption:
+			params.caption.text !== ""
+				? params.caption
+				: referencedParams.caption,
+		hide: params.hide.length !== 0 ? params.hide : referencedParams.hide,
+		annotations: referencedParams.annotations.concat(params.annotations),
+		ignore: params.ignore || referencedParams.ignore,
+		warnings: params.warnings,
+		tokens: params.tokens,
+	}; // Reference parameters override those of the referenced codeblock
+}
+
+function hasHighlights(highlights: Highlights): boolean {
+	return [
+		highlights.lineNumbers,
+		highlights.plainText,
+		highlights.quotedText,
+		highlights.regularExpressions,
+		highlights.columnRanges,
+	].some((highlightList) => highlightList.length !== 0);
+}
+
 async function pluginAdjustPreviewCode(
 	params: CodeblockParameters,
 	plugins: Record<string, ExternalPlugin>,
@@ -407,9 +870,11 @@ function pluginAdjustExecuteCodeRun(
 function parseCodeblockParameterString(
 	parameterString: string,
 	params: CodeblockParameters,
-	theme: CodeStylerTheme
+	theme: CodeStylerTheme,
+	position: number
 ): void {
 	if (parameterString === "ignore") params.ignore = true;
+	else if (parameterString === "diff") params.diff.enabled = true;
 	else if (/^title[:=]/.test(parameterString))
 		manageTitle(parameterString, params);
 	else if (
@@ -420,10 +885,175 @@ function parseCodeblockParameterString(
 	else if (/^fold[:=]?/.test(parameterString))
 		manageFolding(parameterString, params);
 	else if (/^ln[:=]/.test(parameterString))
-		manageLineNumbering(parameterString, params);
+		manageLineNumbering(parameterString, params, position);
 	else if (/^unwrap[:=]?/.test(parameterString) || parameterString === "wrap")
-		manageWrapping(parameterString, params);
-	else addHighlights(parameterString, params, theme);
+		manageWrapping(parameterString, params, position);
+	else if (/^hide[:=]/.test(parameterString))
+		manageHiding(parameterString, params, position);
+	else if (/^note[:=]/.test(parameterString))
+		manageAnnotation(parameterString, params, position);
+	else if (/^id[:=]/.test(parameterString))
+		manageId(
+			parameterString.slice("id:".length),
+			params,
+			position + "id:".length
+		);
+	else if (/^(?:group|tabs)[:=]/.test(parameterString))
+		params.group.name = parameterString
+			.replace(/^(?:group|tabs)[:=]/, "")
+			.replace(/^(["'])(.*)\1$/, "$2")
+			.trim();
+	else if (/^caption[:=]/.test(parameterString))
+		params.caption.text = parameterString
+			.slice("caption:".length)
+			.replace(/^(["'])(.*)\1$/, "$2")
+			.trim();
+	else if (/^theme[:=]/.test(parameterString))
+		params.theme = parameterString
+			.slice("theme:".length)
+			.replace(/^(["'])(.*)\1$/, "$2")
+			.trim();
+	else if (/^\w+-colou?r[:=]/.test(parameterString))
+		manageHighlightColour(parameterString, params, theme, position);
+	else addHighlights(parameterString, params, theme, position);
+}
+
+function getPandocAttributes(
+	parameterLine: string,
+	offset: number
+): PandocAttribute[] | null {
+	const attributeListMatch = /^\{(.+)\} *$/.exec(parameterLine);
+	if (!attributeListMatch) return null;
+	const attributeMatches = [
+		...attributeListMatch[1].matchAll(PANDOC_ATTRIBUTE_REGEX),
+	];
+	if (
+		attributeMatches.length === 0 ||
+		attributeListMatch[1]
+			.replace(PANDOC_ATTRIBUTE_REGEX, "")
+			.trim() !== ""
+	)
+		return null; // Not an attribute list, e.g. JSON arguments of other plugins
+	return attributeMatches.map((attributeMatch) => {
+		const position = offset + 1 + (attributeMatch.index ?? 0);
+		if (attributeMatch[1])
+			return {
+				type: attributeMatch[1] === "." ? "class" : "id",
+				key: attributeMatch[2],
+				value: "",
+				position: position + 1,
+				from: position,
+				to: position + attributeMatch[0].length,
+			};
+		return {
+			type: "pair",
+			key: attributeMatch[3],
+			value:
+				attributeMatch[4] ?? attributeMatch[5] ?? attributeMatch[6],
+			position:
+				position +
+				attributeMatch[3].length +
+				1 +
+				(typeof attributeMatch[6] === "undefined" ? 1 : 0),
+			from: position,
+			to: position + attributeMatch[0].length,
+		};
+	});
+}
+
+function addAttributeTokens(
+	attribute: PandocAttribute,
+	language: boolean,
+	params: CodeblockParameters
+) {
+	if (attribute.type !== "pair")
+		addToken(
+			params,
+			attribute.from,
+			attribute.to,
+			language ? "language" : attribute.type === "id" ? "value" : "key"
+		);
+	else {
+		const valueFrom = attribute.from + attribute.key.length + 1;
+		addToken(params, attribute.from, valueFrom - 1, "key");
+		addToken(params, valueFrom - 1, valueFrom, "separator");
+		if (valueFrom !== attribute.position)
+			addToken(params, valueFrom, attribute.to, "string"); // Quoted values
+		else
+			addValueTokens(attribute.value, attribute.position, params);
+	}
+}
+
+function managePandocAttribute(
+	attribute: PandocAttribute,
+	params: CodeblockParameters,
+	theme: CodeStylerTheme
+) {
+	if (attribute.type === "id") {
+		const listingPrefix = /^lst:/.exec(attribute.key)?.[0] ?? ""; // Pandoc-crossref ids
+		manageId(
+			attribute.key.slice(listingPrefix.length),
+			params,
+			attribute.position + listingPrefix.length
+		);
+	} else if (attribute.type === "class") {
+		if (
+			["fold", "unwrap", "wrap", "diff", "ignore"].includes(attribute.key)
+		)
+			parseCodeblockParameterString(
+				attribute.key,
+				params,
+				theme,
+				attribute.position
+			);
+		else if (["numberLines", "number-lines"].includes(attribute.key)) {
+			params.lineNumbers.alwaysEnabled = true;
+			params.lineNumbers.alwaysDisabled = false;
+		}
+	} else {
+		const key =
+			{
+				startFrom: "ln",
+				"start-from": "ln",
+				filename: "title",
+				"code-fold": "fold",
+			}[attribute.key] ?? attribute.key;
+		if (
+			!PARAMETERS.concat("hl", "ref", "reference").includes(key) &&
+			!(key in theme.colours.light.highlights.alternativeHighlights) &&
+			!/^\w+-colou?r$/.test(key)
+		)
+			return; // Other attributes belong to other tools
+		const warningCount = params.warnings.length;
+		parseCodeblockParameterString(
+			`${key}:${attribute.value}`,
+			params,
+			theme,
+			attribute.position - key.length - 1
+		); // Align the value with its position in the attribute
+		params.warnings.slice(warningCount).forEach((warning) => {
+			const keyShift = attribute.key.length - key.length;
+			if (warning.from < attribute.position) warning.from -= keyShift;
+			if (warning.to <= attribute.position) warning.to -= keyShift;
+			warning.to = Math.min(warning.to, attribute.to);
+		}); // Warnings spanning the key refer to the original key
+	}
+}
+
+function manageId(
+	parameterString: string,
+	params: CodeblockParameters,
+	position: number
+) {
+	const id = parameterString.replace(/^(["'])(.*)\1$/, "$2");
+	if (/^[a-zA-Z0-9-]+$/.test(id)) params.id = id;
+	else
+		addWarning(
+			params,
+			`Invalid id "${id}": expected letters, numbers or dashes`,
+			position,
+			position + Math.max(parameterString.length, 1)
+		);
 }
 
 function manageTitle(parameterString: string, params: CodeblockParameters) {
@@ -476,11 +1106,16 @@ export function manageLink(
 }
 
 function manageFolding(parameterString: string, params: CodeblockParameters) {
-	if (parameterString === "fold") {
+	if (parameterString === "fold" || /^fold[:=]true$/i.test(parameterString)) {
 		params.fold = {
 			enabled: true,
 			placeholder: "",
 		};
+	} else if (/^fold[:=]false$/i.test(parameterString)) {
+		params.fold = {
+			enabled: false,
+			placeholder: "",
+		};
 	} else {
 		const foldPlaceholderMatch = /(["']?)([^\0x1]+)\1/.exec(
 			parameterString.slice("fold:".length)
@@ -496,33 +1131,211 @@ function manageFolding(parameterString: string, params: CodeblockParameters) {
 
 function manageLineNumbering(
 	parameterString: string,
-	params: CodeblockParameters
+	params: CodeblockParameters,
+	position: number
 ) {
 	parameterString = parameterString.slice("ln:".length);
+	const continueMatch = /^continue(?:\(([a-zA-Z0-9-]+)\))?$/i.exec(
+		parameterString
+	);
 	if (/^\d+$/.test(parameterString)) {
 		params.lineNumbers = {
 			alwaysEnabled: true,
 			alwaysDisabled: false,
 			offset: parseInt(parameterString) - 1,
+			continuation: { enabled: false, id: "" },
+		};
+	} else if (continueMatch) {
+		params.lineNumbers = {
+			alwaysEnabled: true,
+			alwaysDisabled: false,
+			offset: 0,
+			continuation: { enabled: true, id: continueMatch[1] ?? "" },
 		};
 	} else if (parameterString.toLowerCase() === "true") {
 		params.lineNumbers = {
 			alwaysEnabled: true,
 			alwaysDisabled: false,
 			offset: 0,
+			continuation: { enabled: false, id: "" },
 		};
 	} else if (parameterString.toLowerCase() === "false") {
 		params.lineNumbers = {
 			alwaysEnabled: false,
 			alwaysDisabled: true,
 			offset: 0,
+			continuation: { enabled: false, id: "" },
 		};
+	} else
+		addWarning(
+			params,
+			`Invalid line numbering "${parameterString}": expected true, false, continue, continue(id) or a starting line number`,
+			position + "ln:".length,
+			position + "ln:".length + parameterString.length
+		);
+}
+
+export function continueLineNumbers(
+	params: CodeblockParameters,
+	lineCount: number,
+	lineNumberEnds: LineNumberEnds
+) {
+	const continuation = params.lineNumbers.continuation;
+	if (continuation.enabled) {
+		params.lineNumbers.offset =
+			continuation.id === ""
+				? lineNumberEnds.previous
+				: lineNumberEnds.ids?.[continuation.id] ?? 0;
 	}
+	lineNumberEnds.previous = params.lineNumbers.offset + lineCount;
+	if (params.id !== "")
+		lineNumberEnds.ids[params.id] = lineNumberEnds.previous;
+}
+
+export function groupCodeblocks(
+	codeblocksParameters: CodeblockParameters[],
+	lines: string[]
+) {
+	let start = 0;
+	while (start < codeblocksParameters.length) {
+		const name = codeblocksParameters[start].group.name;
+		let end = start + 1;
+		while (
+			name !== "" &&
+			end < codeblocksParameters.length &&
+			codeblocksParameters[end].group.name === name &&
+			isConsecutiveGroup(
+				codeblocksParameters[end - 1].group,
+				codeblocksParameters[end].group,
+				lines
+			)
+		)
+			end++;
+		if (end - start > 1) {
+			const groupParameters = codeblocksParameters.slice(start, end);
+			const tabs = groupParameters.map((params) => ({
+				title: params.title,
+				language: params.language,
+			}));
+			groupParameters.forEach((params, index) => {
+				params.group.index = index;
+				params.group.tabs = tabs;
+			});
+		}
+		start = end;
+	}
+}
+
+function isConsecutiveGroup(
+	previous: CodeblockGroup,
+	next: CodeblockGroup,
+	lines: string[]
+): boolean {
+	if (previous.endLine === -1 || next.startLine <= previous.endLine)
+		return false;
+	return lines
+		.slice(previous.endLine + 1, next.startLine)
+		.every((line) => /^\s*(?:>\s*)*$/.test(line)); // Only blank lines between the fences
+}
+
+export function numberCaptions(codeblocksParameters: CodeblockParameters[]) {
+	let captionNumber = 0;
+	codeblocksParameters.forEach((params) => {
+		if (params.caption.text !== "" && !params.ignore)
+			params.caption.number = ++captionNumber;
+	});
+}
+
+export function getListingNumbers(
+	lines: string[],
+	plugin: CodeStylerPlugin,
+	sourcePath: string
+): Record<string, number> {
+	const listingNumbers: Record<string, number> = {};
+	parseDocumentCodeblocks(lines, plugin, sourcePath).forEach((params) => {
+		if (params.id !== "" && params.caption.number !== 0)
+			listingNumbers[params.id] = params.caption.number;
+	});
+	return listingNumbers;
+}
+
+export function parseDocumentCodeblocks(
+	lines: string[],
+	plugin: CodeStylerPlugin,
+	sourcePath: string
+): Map<number, CodeblockParameters> {
+	const text = lines.join("\n");
+	if (documentCodeblocks[sourcePath]?.text === text)
+		return documentCodeblocks[sourcePath].codeblocksParameters; // Sections and cross-references of one render share a parse
+	const codeblocksParameters: Map<number, CodeblockParameters> = new Map();
+	const lineNumberEnds: LineNumberEnds = { previous: 0, ids: {} };
+	let openingIndex = -1;
+	lines.forEach((line, index) => {
+		const delimiter = testOpeningLine(line);
+		if (delimiter === "") return;
+		else if (openingIndex === -1) openingIndex = index;
+		else if (delimiter === testOpeningLine(lines[openingIndex])) {
+			const codeblockParameters = parseCodeblockParameters(
+				cleanParameterLine(lines[openingIndex]),
+				plugin.settings.currentTheme,
+				(language) => getDefaultParameters(sourcePath, language, plugin)
+			);
+			if (
+				!isCodeblockIgnored(
+					codeblockParameters.language,
+					plugin.settings.processedCodeblocksWhitelist
+				) ||
+				codeblockParameters.language === "reference"
+			) {
+				if (isLineNumbered(codeblockParameters, plugin))
+					continueLineNumbers(
+						codeblockParameters,
+						index - openingIndex - 1,
+						lineNumberEnds
+					);
+				codeblockParameters.group.startLine = openingIndex;
+				codeblockParameters.group.endLine = index;
+				codeblocksParameters.set(openingIndex, codeblockParameters);
+			}
+			openingIndex = -1;
+		}
+	});
+	groupCodeblocks(Array.from(codeblocksParameters.values()), lines);
+	numberCaptions(Array.from(codeblocksParameters.values()));
+	documentCodeblocks[sourcePath] = {
+		text: text,
+		codeblocksParameters: codeblocksParameters,
+	};
+	return codeblocksParameters;
+}
+
+export function clearDocumentCodeblocks() {
+	for (const sourcePath in documentCodeblocks)
+		delete documentCodeblocks[sourcePath];
+}
+
+function isLineNumbered(
+	params: CodeblockParameters,
+	plugin: CodeStylerPlugin
+): boolean {
+	return (
+		!params.ignore &&
+		!isLanguageIgnored(
+			params.language,
+			plugin.settings.excludedLanguages
+		) &&
+		(!isCodeblockIgnored(
+			params.language,
+			plugin.settings.processedCodeblocksWhitelist
+		) ||
+			params.language === "reference")
+	);
 }
 
 function manageWrapping(
 	parameterString: string,
-	codeblockParameters: CodeblockParameters
+	codeblockParameters: CodeblockParameters,
+	position: number
 ) {
 	if (parameterString === "wrap") {
 		codeblockParameters.lineUnwrap = {
@@ -556,40 +1369,250 @@ function manageWrapping(
 				alwaysDisabled: true,
 				activeWrap: false,
 			};
+		} else
+			addWarning(
+				codeblockParameters,
+				`Invalid unwrap setting "${parameterString}": expected true, false or inactive`,
+				position + "unwrap:".length,
+				position + "unwrap:".length + parameterString.length
+			);
+	}
+}
+
+function manageHiding(
+	parameterString: string,
+	params: CodeblockParameters,
+	position: number
+) {
+	let rulePosition = position + "hide:".length;
+	const hiddenRanges: LineRange[] = [];
+	parameterString
+		.slice("hide:".length)
+		.split(",")
+		.forEach((hideRule) => {
+			const rangeMatch = /^(\d+)(?:-(\d+))?$/.exec(hideRule);
+			const start = parseInt(rangeMatch?.[1] ?? "");
+			const end = parseInt(rangeMatch?.[2] ?? rangeMatch?.[1] ?? "");
+			if (start && end && start <= end)
+				hiddenRanges.push({ start: start, end: end });
+			else
+				addWarning(
+					params,
+					`Invalid hidden line range "${hideRule}"`,
+					rulePosition,
+					rulePosition + Math.max(hideRule.length, 1)
+				);
+			rulePosition += hideRule.length + 1;
+		});
+	params.hide = hiddenRanges
+		.sort((first, second) => first.start - second.start)
+		.reduce((result: LineRange[], range) => {
+			const previous = result[result.length - 1];
+			if (previous && range.start <= previous.end + 1)
+				previous.end = Math.max(previous.end, range.end);
+			else result.push(range);
+			return result;
+		}, []); // Merge overlapping ranges
+}
+
+function manageAnnotation(
+	parameterString: string,
+	params: CodeblockParameters,
+	position: number
+) {
+	const annotationMatch = /^note[:=](\/.*\/|\d+(?:-\d+)?)(["'])(.*)\2$/.exec(
+		parameterString
+	);
+	const warn = (message: string) =>
+		addWarning(
+			params,
+			message,
+			position,
+			position + parameterString.length
+		);
+	if (!annotationMatch) {
+		warn(
+			`Invalid note "${parameterString}": expected a line or regular expression followed by quoted text`
+		);
+		return;
+	}
+	const [, target, , text] = annotationMatch;
+	if (target.startsWith("/")) {
+		try {
+			params.annotations.push({
+				lineNumbers: [],
+				regularExpression: new RegExp(target.slice(1, -1)),
+				text: text,
+			});
+		} catch (error) {
+			warn(
+				error instanceof Error
+					? error.message
+					: `Invalid regular expression "${target}"`
+			);
 		}
+		return;
+	}
+	const [start, end] = target.split("-").map((num) => parseInt(num));
+	if (!start || (end !== undefined && (!end || start > end))) {
+		warn(`Invalid line range "${target}"`);
+		return;
 	}
+	params.annotations.push({
+		lineNumbers: Array.from(
+			{ length: (end ?? start) - start + 1 },
+			(_, num) => num + start
+		),
+		text: text,
+	});
+}
+
+function manageHighlightColour(
+	parameterString: string,
+	params: CodeblockParameters,
+	theme: CodeStylerTheme,
+	position: number
+) {
+	const colourMatch = /^(\w+)-colou?r[:=](["']?)(.*)\2$/.exec(
+		parameterString
+	);
+	const name = colourMatch?.[1] ?? "";
+	const colour = colourMatch?.[3].trim() ?? "";
+	if (
+		name !== "hl" &&
+		!(name in theme.colours.light.highlights.alternativeHighlights)
+	)
+		addWarning(
+			params,
+			unknownHighlightMessage(name, theme),
+			position,
+			position + name.length
+		);
+	else if (colour === "")
+		addWarning(
+			params,
+			`Missing colour for "${name}"`,
+			position,
+			position + parameterString.length
+		);
+	else params.highlights.colours[name] = colour;
+}
+
+export function getHiddenRange(
+	params: CodeblockParameters,
+	lineNumber: number
+): LineRange | undefined {
+	return params.hide.find(
+		(range) =>
+			range.start <= lineNumber + params.lineNumbers.offset &&
+			lineNumber + params.lineNumbers.offset <= range.end
+	);
 }
 
 function addHighlights(
 	parameterString: string,
 	codeblockParameters: CodeblockParameters,
-	theme: CodeStylerTheme
+	theme: CodeStylerTheme,
+	position: number
 ) {
 	const highlightMatch = /^(\w+)[:=](.+)$/.exec(parameterString);
 	if (highlightMatch) {
+		const rulesPosition = position + highlightMatch[1].length + 1;
 		if (highlightMatch[1] === "hl")
 			codeblockParameters.highlights.default = parseHighlightedLines(
-				highlightMatch[2]
+				highlightMatch[2],
+				codeblockParameters,
+				rulesPosition
 			);
 		else if (
 			highlightMatch[1] in
 			theme.colours.light.highlights.alternativeHighlights
 		)
 			codeblockParameters.highlights.alternative[highlightMatch[1]] =
-				parseHighlightedLines(highlightMatch[2]);
+				parseHighlightedLines(
+					highlightMatch[2],
+					codeblockParameters,
+					rulesPosition
+				);
+		else
+			addWarning(
+				codeblockParameters,
+				unknownHighlightMessage(highlightMatch[1], theme),
+				position,
+				position + highlightMatch[1].length,
+				true
+			);
 	} else if (/^{[\d-,]+}$/.test(parameterString))
 		codeblockParameters.highlights.default = parseHighlightedLines(
-			parameterString.slice(1, -1)
+			parameterString.slice(1, -1),
+			codeblockParameters,
+			position + 1
 		);
+	else if (!/[{}]/.test(parameterString))
+		// Braces belong to JSON arguments of other plugins
+		addWarning(
+			codeblockParameters,
+			`Unknown parameter "${parameterString}"`,
+			position,
+			position + parameterString.length,
+			true
+		);
+}
+
+function unknownHighlightMessage(
+	name: string,
+	theme: CodeStylerTheme
+): string {
+	const alternativeHighlights = Object.keys(
+		theme.colours.light.highlights.alternativeHighlights
+	);
+	const closestHighlight = alternativeHighlights.find(
+		(highlight) => highlight.startsWith(name) || name.startsWith(highlight)
+	);
+	if (closestHighlight)
+		return `Unknown highlight "${name}": did you mean "${closestHighlight}"?`;
+	if (alternativeHighlights.length !== 0)
+		return `Unknown highlight "${name}": the current theme defines ${alternativeHighlights
+			.map((highlight) => `"${highlight}"`)
+			.join(", ")}`;
+	return `Unknown parameter or highlight "${name}"`;
 }
 
-function parseHighlightedLines(highlightedLinesString: string): Highlights {
+function parseHighlightedLines(
+	highlightedLinesString: string,
+	codeblockParameters: CodeblockParameters,
+	position: number
+): Highlights {
 	const highlightRules = highlightedLinesString.split(",");
 	const lineNumbers: Set<number> = new Set();
 	const plainText: Set<string> = new Set();
+	const quotedText: Set<string> = new Set();
 	const regularExpressions: Set<RegExp> = new Set();
+	const columnRanges: ColumnRange[] = [];
+	let rulePosition = position;
 	highlightRules.forEach((highlightRule) => {
-		if (/\d+-\d+/.test(highlightRule)) {
+		const warn = (message: string) =>
+			addWarning(
+				codeblockParameters,
+				message,
+				rulePosition,
+				rulePosition + Math.max(highlightRule.length, 1)
+			);
+		const columnMatch = /^(\d+)\[(\d+)(?:-(\d+))?\]$/.exec(highlightRule);
+		if (highlightRule === "") warn("Empty highlight rule");
+		else if (columnMatch) {
+			// Column Range
+			const [lineNumber, start, end] = columnMatch
+				.slice(1)
+				.map((num) => parseInt(num));
+			if (lineNumber && start && (isNaN(end) || start <= end))
+				columnRanges.push({
+					lineNumber: lineNumber,
+					from: start - 1,
+					to: isNaN(end) ? start : end,
+				});
+			else warn(`Invalid column range "${highlightRule}"`);
+		} else if (/\d+-\d+/.test(highlightRule)) {
 			// Number Range
 			const [start, end] = highlightRule
 				.split("-")
@@ -599,35 +1622,196 @@ function parseHighlightedLines(highlightedLinesString: string): Highlights {
 					{ length: end - start + 1 },
 					(_, num) => num + start
 				).forEach((lineNumber) => lineNumbers.add(lineNumber));
-		} else if (/^\/(.*)\/$/.test(highlightRule)) {
+			else warn(`Invalid line range "${highlightRule}"`);
+		} else if (/^\d+-$|^-\d+$/.test(highlightRule))
+			// Incomplete Range
+			warn(`Incomplete line range "${highlightRule}"`);
+		else if (/^\/(.*)\/$/.test(highlightRule)) {
 			// Regex
 			try {
 				regularExpressions.add(
-					new RegExp(highlightRule.replace(/^\/(.*)\/$/, "$1"))
+					new RegExp(highlightRule.replace(/^\/(.*)\/$/, "$1"), "g")
+				);
+			} catch (error) {
+				warn(
+					error instanceof Error
+						? error.message
+						: `Invalid regular expression "${highlightRule}"`
 				);
-			} catch {
-				//pass
 			}
-		} else if (/".*"/.test(highlightRule))
-			// Plain Text
-			plainText.add(highlightRule.substring(1, highlightRule.length - 1));
+		} else if (/^\/[^/]*$/.test(highlightRule))
+			warn(`Unterminated regular expression "${highlightRule}"`);
+		else if (/^(["'])(?:(?!\1).)*$/.test(highlightRule))
+			warn(`Unmatched quotation mark in "${highlightRule}"`);
+		else if (/".*"/.test(highlightRule))
+			// Quoted Text
+			quotedText.add(
+				highlightRule.substring(1, highlightRule.length - 1)
+			);
 		else if (/'.*'/.test(highlightRule))
-			// Plain Text
-			plainText.add(highlightRule.substring(1, highlightRule.length - 1));
+			// Quoted Text
+			quotedText.add(
+				highlightRule.substring(1, highlightRule.length - 1)
+			);
 		else if (/\D/.test(highlightRule))
 			// Plain Text //TODO (@mayurankv) Should this be \D+ ??
 			plainText.add(highlightRule);
 		else if (/\d+/.test(highlightRule))
 			// Plain Number
 			lineNumbers.add(parseInt(highlightRule));
+		rulePosition += highlightRule.length + 1;
 	});
 	return {
 		lineNumbers: [...lineNumbers],
 		plainText: [...plainText],
+		quotedText: [...quotedText],
 		regularExpressions: [...regularExpressions],
+		columnRanges: columnRanges,
 	};
 }
 
+function warnUnmatchedQuotes(
+	unparsedString: string,
+	position: number,
+	codeblockParameters: CodeblockParameters
+) {
+	const quoteIndex = unparsedString.search(/["']/);
+	if (quoteIndex !== -1)
+		addWarning(
+			codeblockParameters,
+			"Unmatched quotation mark",
+			position + quoteIndex,
+			position + quoteIndex + 1
+		);
+}
+
+function addParameterTokens(
+	parameterString: string,
+	position: number,
+	params: CodeblockParameters
+) {
+	const keyMatch = /^([\w-]+)([:=])/.exec(parameterString);
+	if (!keyMatch)
+		addToken(
+			params,
+			position,
+			position + parameterString.length,
+			/^{.*}$/.test(parameterString) ? "range" : "key"
+		);
+	else {
+		addToken(params, position, position + keyMatch[1].length, "key");
+		addToken(
+			params,
+			position + keyMatch[1].length,
+			position + keyMatch[0].length,
+			"separator"
+		);
+		addValueTokens(
+			parameterString.slice(keyMatch[0].length),
+			position + keyMatch[0].length,
+			params
+		);
+	}
+}
+
+function addValueTokens(
+	value: string,
+	position: number,
+	params: CodeblockParameters
+) {
+	[
+		...value.matchAll(
+			/"[^"]*"|'[^']*'|\/(?:\\.|[^\\/])*\/|\[\[.*?\]\]|\[.*?\]\(.+?\)|https?:\/\/\S+|\d+(?:-\d+)?(?:\[\d+(?:-\d+)?\])?(?=[,"']|$)|[^,]+/g
+		),
+	].forEach((valueMatch) => {
+		const from = position + (valueMatch.index ?? 0);
+		addToken(
+			params,
+			from,
+			from + valueMatch[0].length,
+			getValueTokenType(valueMatch[0])
+		);
+	});
+}
+
+function getValueTokenType(value: string): ParameterToken["type"] {
+	if (/^["']/.test(value)) return "string";
+	else if (value.startsWith("/")) return "regex";
+	else if (/^(?:\[|https?:)/.test(value)) return "link";
+	else if (/^\d+(?:-\d+)?(?:\[\d+(?:-\d+)?\])?$/.test(value))
+		return "range";
+	return "value";
+}
+
+function addToken(
+	codeblockParameters: CodeblockParameters,
+	from: number,
+	to: number,
+	type: ParameterToken["type"]
+) {
+	if (from < to)
+		codeblockParameters.tokens.push({ from: from, to: to, type: type });
+}
+
+function addWarning(
+	codeblockParameters: CodeblockParameters,
+	message: string,
+	from: number,
+	to: number,
+	unknown: boolean = false
+) {
+	codeblockParameters.warnings.push({
+		from: from,
+		to: to,
+		message: message,
+		unknown: unknown,
+	});
+}
+
+export function getDiffMarker(line: string): DiffMarker {
+	if (line.startsWith("+")) return "+";
+	if (line.startsWith("-")) return "-";
+	return "";
+}
+
+export function getDiffResult(lines: string[]): string {
+	return lines
+		.filter((line) => getDiffMarker(line) !== "-")
+		.map((line) => (getDiffMarker(line) === "+" ? line.slice(1) : line))
+		.join("\n");
+}
+
+export function getCallout(line: string, language: string): Callout | null {
+	const languageInfo = LANGUAGES[LANGUAGE_NAMES[language] ?? language];
+	const markers = "((?:(?:<\\d+>|\\(\\d+\\))\\s*)+)";
+	const calloutRegExps = [
+		...(languageInfo?.inlineComment ?? []).map(
+			(inlineComment) =>
+				new RegExp(`\\s*${escapeRegExp(inlineComment)}\\s*${markers}$`)
+		),
+		...(languageInfo?.blockComment ?? []).map(
+			(blockComment) =>
+				new RegExp(
+					`\\s*${escapeRegExp(
+						blockComment.open
+					)}\\s*${markers}${escapeRegExp(blockComment.close)}\\s*$`
+				)
+		),
+	];
+	for (const calloutRegExp of calloutRegExps) {
+		const calloutMatch = calloutRegExp.exec(line);
+		if (calloutMatch)
+			return {
+				from: calloutMatch.index,
+				to: line.length,
+				numbers: [...calloutMatch[1].matchAll(/\d+/g)].map((number) =>
+					parseInt(number[0])
+				),
+			};
+	}
+	return null;
+}
+
 export function isLanguageIgnored(
 	language: string,
 	excludedLanguagesString: string
@@ -644,9 +1828,16 @@ export function isCodeblockIgnored(
 	return (
 		//@ts-expect-error Undocumented Obsidian API
 		language in MarkdownPreviewRenderer.codeBlockPostProcessors &&
-		!parseRegexExcludedLanguages(whitelistedCodeblocksString).some(
-			(regexExcludedLanguage) => regexExcludedLanguage.test(language)
-		)
+		!isCodeblockWhitelisted(language, whitelistedCodeblocksString)
+	);
+}
+
+export function isCodeblockWhitelisted(
+	language: string,
+	whitelistedCodeblocksString: string
+): boolean {
+	return parseRegexExcludedLanguages(whitelistedCodeblocksString).some(
+		(regexExcludedLanguage) => regexExcludedLanguage.test(language)
 	);
 }
 
@@ -675,6 +1866,13 @@ function getParameterLine(codeblockLines: string[]): string | undefined {
 	return openingCodeblockLine;
 }
 
+function getCodeLineCount(codeblockLines: string[]): number {
+	const openingIndex = codeblockLines.findIndex((line: string) =>
+		Boolean(testOpeningLine(line))
+	);
+	return Math.max(codeblockLines.length - openingIndex - 2, 0);
+}
+
 function getOpeningLine(codeblockLines: string[]): string | undefined {
 	return codeblockLines.find((line: string) =>
 		Boolean(testOpeningLine(line))
@@ -2,6 +2,13 @@ export interface InlineCodeParameters {
 	language: string;
 	title: string;
 	icon: boolean;
+	copy: boolean | null;
+}
+
+export interface InlineCodeSpan {
+	line: number;
+	from: number;
+	text: string;
 }
 
 export function parseInlineCode(codeText: string): {
@@ -27,6 +34,42 @@ export function parseInlineCode(codeText: string): {
 	return { parameters: null, text: codeText };
 }
 
+export function parseInlineCodeAttributes(followingText: string): {
+	parameters: InlineCodeParameters;
+	length: number;
+} | null {
+	const match =
+		/^{:?((?:[^"'{}\\]|\\.|"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')*)}/.exec(
+			followingText
+		); // Pandoc and kramdown attribute lists following the inline code
+	if (!match) return null;
+	const inlineCodeParameters: InlineCodeParameters = {
+		language: "",
+		title: "",
+		icon: false,
+		copy: null,
+	};
+	match[1]
+		.match(/(?:[^\s"']+|"[^"]*"|'[^']*')+/g)
+		?.forEach((attribute) => {
+			if (!attribute.startsWith("."))
+				parseInlineCodeParameterString(attribute, inlineCodeParameters);
+			else if (inlineCodeParameters.language === "")
+				inlineCodeParameters.language = attribute
+					.slice(1)
+					.replace(/^language-/, "")
+					.toLowerCase();
+		});
+	if (
+		inlineCodeParameters.language === "" &&
+		inlineCodeParameters.title === "" &&
+		!inlineCodeParameters.icon &&
+		inlineCodeParameters.copy === null
+	)
+		return null;
+	return { parameters: inlineCodeParameters, length: match[0].length };
+}
+
 function parseInlineCodeParameters(
 	parameterLine: string
 ): InlineCodeParameters {
@@ -34,6 +77,7 @@ function parseInlineCodeParameters(
 		language: "",
 		title: "",
 		icon: false,
+		copy: null,
 	};
 	const languageBreak = parameterLine.indexOf(" ");
 	inlineCodeParameters.language = parameterLine
@@ -72,5 +116,34 @@ function parseInlineCodeParameterString(
 			parameterString.toLowerCase() === "icon:true")
 	) {
 		inlineCodeParameters.icon = true;
+	} else if (parameterString === "copy" || parameterString === "nocopy") {
+		inlineCodeParameters.copy = parameterString === "copy";
+	}
+}
+
+export function getInlineCodeSpans(
+	lines: string[],
+	lineStart: number,
+	lineEnd: number
+): InlineCodeSpan[] {
+	const inlineCodeSpans: InlineCodeSpan[] = [];
+	let fence = "";
+	for (let lineNumber = lineStart; lineNumber <= lineEnd; lineNumber++) {
+		const line = lines?.[lineNumber] ?? "";
+		const fenceMatch = /^\s*(?:>\s*)*(```+|~~~+)/.exec(line);
+		if (fenceMatch && (fence === "" || fenceMatch[1].startsWith(fence))) {
+			fence = fence === "" ? fenceMatch[1] : "";
+			continue;
+		}
+		if (fence !== "") continue; // Skip codeblock lines
+		for (const spanMatch of line.matchAll(
+			/(?<!`)(`+)(?!`)(.+?)(?<!`)\1(?!`)/g
+		))
+			inlineCodeSpans.push({
+				line: lineNumber,
+				from: (spanMatch.index ?? 0) + spanMatch[1].length,
+				text: spanMatch[2],
+			});
 	}
+	return inlineCodeSpans;
 }
@@ -1,14 +1,66 @@
-import { normalizePath, parseYaml, requestUrl, request } from "obsidian";
+import { normalizePath, parseYaml } from "obsidian";
 import { extname } from "path";
 import CodeStylerPlugin from "src/main";
+import { LANGUAGES, LANGUAGE_NAMES, Language } from "src/Settings";
+import { LineRange } from "./CodeblockParsing";
 
 const LOCAL_PREFIX = "@/";
+const SYMBOL_KEYWORDS = [
+	"class",
+	"def",
+	"function",
+	"func",
+	"fn",
+	"fun",
+	"sub",
+	"proc",
+	"struct",
+	"interface",
+	"enum",
+	"trait",
+	"impl",
+	"module",
+	"namespace",
+	"object",
+	"record",
+	"type",
+	"const",
+	"let",
+	"var",
+];
+const STATEMENT_KEYWORDS = [
+	"if",
+	"elif",
+	"else",
+	"for",
+	"while",
+	"do",
+	"switch",
+	"case",
+	"catch",
+	"with",
+	"return",
+	"yield",
+	"await",
+	"throw",
+	"new",
+	"not",
+	"and",
+	"or",
+	"in",
+	"of",
+	"print",
+	"echo",
+];
+const MAX_SIGNATURE_LINES = 20;
 
 export interface Ref {
 	code: string;
 	startLine: number;
 	language: string;
 	path: string;
+	hidden?: LineRange[];
+	openingLine?: string;
 	external?: ExtRef;
 }
 
@@ -17,16 +69,34 @@ export interface ExtRef {
 	content: string;
 	metadata: Partial<ExtRefMetadata>;
 	params: ExtRefParams;
+	lineAnchor?: LineAnchor;
+}
+
+export interface LineAnchor {
+	hash: string;
+	start: number;
+	end: number;
 }
 
 type LineIdentifier = null | string | number | RegExp;
 
+interface LineIdentifierRange {
+	start: LineIdentifier;
+	end: LineIdentifier;
+}
+
 export interface RefParams {
 	path: string;
 	storePath: string;
 	language: string;
 	start: LineIdentifier;
 	end: LineIdentifier;
+	symbol: string | null;
+	region: string | null;
+	ranges: LineIdentifierRange[];
+	block: string | number | null;
+	heading: string | null;
+	lineAnchor: LineAnchor | null;
 	external?: ExtRefParams;
 }
 
@@ -61,6 +131,10 @@ interface ParsedParams {
 	lang?: string;
 	start?: string | number;
 	end?: string | number;
+	symbol?: string;
+	region?: string;
+	block?: string | number;
+	heading?: string;
 	headers?: Record<string, string>;
 }
 
@@ -116,6 +190,8 @@ export function parseRefParams(
 	sourcePath: string,
 	plugin: CodeStylerPlugin
 ): RefParams {
+	const rangesMatch = /^lines\s*:(.*)$/m.exec(source);
+	if (rangesMatch) source = source.replace(rangesMatch[0], ""); // Line ranges are not valid YAML
 	source = source
 		.replace(/^([^:]+):(.+)\n/, "$1: $2\n")
 		.replace(/(?<!")\[\[(.*?)\]\](?!")/, '"[[$1]]"');
@@ -133,16 +209,18 @@ export function parseRefParams(
 
 	let storePath = "";
 	let extRefParams: ExtRefParams | undefined = undefined;
-	const url = new URL(path);
-	if (url.protocol === "http:" || url.protocol === "https:") {
+	let lineAnchor: LineAnchor | null = null;
+	if (/^https?:\/\//.test(path)) {
+		const url = new URL(path);
 		const id = [
 			url.hostname,
 			...(url.pathname + url.search).split("/"),
 		].join("-");
 		storePath = plugin.refContentPath(id);
+		lineAnchor = getLineAnchor(url.hash);
 		extRefParams = {
 			id: id,
-			rawUrl: path,
+			rawUrl: path.replace(/#.*$/, ""),
 			hostname: url.hostname,
 			headers: params?.headers ?? {},
 			storePath: storePath,
@@ -151,200 +229,168 @@ export function parseRefParams(
 		storePath = resolveLocalPath(path, sourcePath, plugin);
 	}
 
+	if (
+		lineAnchor !== null &&
+		typeof params.start === "undefined" &&
+		typeof params.end === "undefined"
+	) {
+		params.start = lineAnchor.start;
+		params.end = lineAnchor.end;
+	} // Use the lines of permalinks such as #L10-L25
+
+	const block = getBlockIdentifier(params.block);
+	const heading = params?.heading?.toString()?.trim() || null;
+	const noteCodeblock = block !== null || heading !== null;
 	return {
 		path: path,
 		storePath: storePath,
-		language: params?.language ?? params?.lang ?? getLanguage(path),
+		language:
+			params?.language ??
+			params?.lang ??
+			(noteCodeblock ? "" : getLanguage(path)), // Use the language of the referenced codeblock
 		external: extRefParams,
 		end: getLineIdentifier(params.end),
 		start: getLineIdentifier(params.start),
+		symbol: params?.symbol?.toString()?.trim() || null,
+		region: params?.region?.toString()?.trim() || null,
+		ranges: rangesMatch ? getLineIdentifierRanges(rangesMatch[1]) : [],
+		block: block,
+		heading: heading,
+		lineAnchor: lineAnchor,
 	};
 }
 
-export async function _fetchExtRef(params: ExtRefParams): Promise<ExtRef> {
-	try {
-		if (
-			params?.headers &&
-			(params?.hostname === "github.com" ||
-				params?.hostname === "raw.githubusercontent.com")
-		) {
-			return await fetchGitHubSCM(params);
-		}
+function getLanguage(path: string): string {
+	if (path.startsWith("[[") && path.endsWith("]]")) {
+		path = path.slice(2, -2);
+	}
+	return extname(path.replace(/#.*$/, "")).slice(1); // Ignore link anchors
+}
 
-		const HEADERS = {
-			Accept: "application/json",
-			"Content-Type": "application/json",
-			...params.headers,
-		};
+export function getLineLimits(
+	codeContent: string,
+	params: RefParams
+): { codeSection: string; startLine: number; hidden?: LineRange[] } {
+	const lines = codeContent.split("\n");
 
-		if (params?.hostname === "gitlab.com") {
-			params.rawUrl = params.rawUrl
-				.split("?")[0]
-				.replace(/(?<=gitlab.com\/.*\/.*\/)raw(?=\/)/, "blob");
-			const info = (
-				await requestUrl({
-					url: params.rawUrl,
-					method: "GET",
-					headers: HEADERS,
-				})
-			).json;
-			return {
-				id: params.id,
-				params: params,
-				content: await request("https://gitlab.com" + info.raw_path),
-				metadata: {
-					title: info.name,
-					datetime: timeStamp(),
-					displayUrl: params.rawUrl,
-					author:
-						params.rawUrl.match(
-							/(?<=^https?:\/\/gitlab.com\/).*?(?=\/)/
-						)?.[0] ?? "",
-					repository:
-						params.rawUrl.match(
-							/(?<=^https?:\/\/gitlab.com\/.*?\/).*?(?=\/)/
-						)?.[0] ?? "",
-					path: info.path,
-					refInfo: {
-						ref: "", //TODO (@mayurankv) Parse from url
-						type: "", //TODO (@mayurankv) Parse from url
-					},
-				},
-			};
-		} else if (params?.hostname === "bitbucket.org") {
-			return {
-				id: params.id,
-				params: params,
-				content: await request(params.rawUrl),
-				metadata: {
-					datetime: timeStamp(),
-				},
-			};
-		} else if (params?.hostname === "sourceforge.com") {
-			return {
-				id: params.id,
-				params: params,
-				content: await request(params.rawUrl),
-				metadata: {
-					datetime: timeStamp(),
-				},
-			};
-		}
+	if (params.symbol !== null) {
+		const symbolLimits = getSymbolLimits(
+			lines,
+			params.symbol,
+			params.language
+		);
 		return {
-			id: params.id,
-			params: params,
-			content: await request(params.rawUrl),
-			metadata: {
-				datetime: timeStamp(),
-			},
+			startLine: symbolLimits.startIndex + 1,
+			codeSection: lines
+				.slice(symbolLimits.startIndex, symbolLimits.endIndex + 1)
+				.join("\n"),
 		};
-	} catch (error) {
-		throw Error(`Could not fetch external URL: ${error}`);
 	}
-}
 
-async function fetchGitHubSCM(params: ExtRefParams): Promise<ExtRef> {
-	const host = "https://api.github.com";
-	const partial = params.rawUrl.match(
-		/^https?:\/\/(?:raw\.)?github(?:usercontent)?\.com\/([^\/]+)\/([^\/]+)\/(?:blob\/|raw\/)?(?:refs\/(?:heads|tags)\/)?([^\/]+)\/(.+)$/
-	);
-	if (!partial) {
-		throw Error("invalid GitHub url");
+	if (params.region !== null) {
+		const regionLimits = getRegionLimits(lines, params.region);
+		const regionLines = lines.slice(
+			regionLimits.startIndex,
+			regionLimits.endIndex + 1
+		);
+		const hidden = regionLines.reduce(
+			(result: LineRange[], line, index) => {
+				if (getRegionMarker(line) === null) return result;
+				const lineNumber = regionLimits.startIndex + index + 1;
+				const previous = result[result.length - 1];
+				if (previous && previous.end === lineNumber - 1)
+					previous.end = lineNumber;
+				else result.push({ start: lineNumber, end: lineNumber });
+				return result;
+			},
+			[]
+		); // Hide the markers of nested regions
+		return {
+			startLine: regionLimits.startIndex + 1,
+			codeSection: regionLines.join("\n"),
+			hidden: hidden.length !== 0 ? hidden : undefined,
+		};
 	}
 
-	const [, owner, repo, ref, path] = partial;
-	const HEADERS = {
-		Accept: "application/vnd.github+json",
-		"X-GitHub-Api-Version": "2022-11-28",
-		"User-Agent": "Obsidian-Code-Styler",
-		...params?.headers,
-	};
-
-	// https://docs.github.com/en/rest/repos/contents?apiVersion=2022-11-28#get-repository-content
-	const content = await requestUrl({
-		url: `${host}/repos/${owner}/${repo}/contents/${path}?ref=${ref}`,
-		method: "GET",
-		headers: HEADERS,
-	}).json;
-
-	// https://docs.github.com/en/rest/commits/commits?apiVersion=2022-11-28#get-a-commit
-	const commit = await requestUrl({
-		url: `${host}/repos/${owner}/${repo}/commits/${ref}`,
-		method: "GET",
-		headers: HEADERS,
-	}).json;
+	if (params.ranges.length !== 0) {
+		const lineRanges = params.ranges
+			.map((range) => getRangeLimits(lines, range.start, range.end))
+			.sort((first, second) => first.startIndex - second.startIndex)
+			.reduce(
+				(
+					result: { startIndex: number; endIndex: number }[],
+					range
+				) => {
+					const previous = result[result.length - 1];
+					if (previous && range.startIndex <= previous.endIndex + 1)
+						previous.endIndex = Math.max(
+							previous.endIndex,
+							range.endIndex
+						);
+					else result.push(range);
+					return result;
+				},
+				[]
+			); // Merge overlapping ranges
+		return {
+			startLine: lineRanges[0].startIndex + 1,
+			codeSection: lines
+				.slice(
+					lineRanges[0].startIndex,
+					lineRanges[lineRanges.length - 1].endIndex + 1
+				)
+				.join("\n"),
+			hidden: lineRanges.slice(1).map((range, index) => ({
+				start: lineRanges[index].endIndex + 2,
+				end: range.startIndex,
+			})), // Hide the lines between ranges
+		};
+	}
 
+	const { startIndex, endIndex } = getRangeLimits(
+		lines,
+		params.start,
+		params.end
+	);
 	return {
-		id: params.id,
-		params: params,
-		content: decodeURIComponent(escape(atob(content.content))),
-		metadata: {
-			site: "github",
-			title: content.name,
-			datetime: commit.commit?.author?.date ?? timeStamp(),
-			displayUrl: content.html_url,
-			author: commit.commit?.author?.name,
-			repository: `${repo}`,
-			path: content.path,
-			refInfo: {
-				ref: ref,
-				type: "tree",
-			},
-		},
+		startLine: startIndex + 1,
+		codeSection: lines.slice(startIndex, endIndex + 1).join("\n"),
 	};
 }
 
-function getLanguage(path: string): string {
-	if (path.startsWith("[[") && path.endsWith("]]")) {
-		path = path.slice(2, -2);
-	}
-	return extname(path).slice(1);
-}
-
-export function getLineLimits(
-	codeContent: string,
-	params: RefParams
-): { codeSection: string; startLine: number } {
-	const lines = codeContent.split("\n");
-
+function getRangeLimits(
+	lines: string[],
+	start: LineIdentifier,
+	end: LineIdentifier
+): { startIndex: number; endIndex: number } {
 	let startIndex: number;
-	if (params.start === null) {
+	if (start === null) {
 		startIndex = 0;
-	} else if (typeof params.start === "number") {
-		startIndex = params.start - 1;
-	} else if (
-		(params.start as string)?.startsWith("/") &&
-		(params.start as string)?.endsWith("/")
-	) {
-		const startRegex = new RegExp(
-			(params.start as string).replace(/^\/(.*)\/$/, "$1")
-		);
+	} else if (typeof start === "number") {
+		startIndex = start - 1;
+	} else if (start instanceof RegExp) {
+		startIndex = lines.findIndex((line) => start.test(line));
+	} else if (start.startsWith("/") && start.endsWith("/")) {
+		const startRegex = new RegExp(start.replace(/^\/(.*)\/$/, "$1"));
 		startIndex = lines.findIndex((line) => startRegex.test(line));
 	} else {
-		startIndex = lines.findIndex(
-			(line) => line.indexOf(params.start as string) > -1
-		);
+		startIndex = lines.findIndex((line) => line.indexOf(start) > -1);
 	}
 
 	let endIndex: number;
-	if (params.end === null) {
+	if (end === null) {
 		endIndex = lines.length - 1;
-	} else if (typeof params.end === "number") {
-		endIndex = params.end - 1;
-	} else if (
-		(params.end as string)?.startsWith("/") &&
-		(params.end as string)?.endsWith("/")
-	) {
-		const endRegex = new RegExp(
-			(params.end as string).replace(/^\/(.*)\/$/, "$1")
-		);
+	} else if (typeof end === "number") {
+		endIndex = end - 1;
+	} else if (end instanceof RegExp) {
+		endIndex = lines.findIndex((line) => end.test(line));
+	} else if (end.startsWith("/") && end.endsWith("/")) {
+		const endRegex = new RegExp(end.replace(/^\/(.*)\/$/, "$1"));
 		endIndex = lines.findIndex((line) => endRegex.test(line));
-	} else if ((params.end as string)?.startsWith("+"))
-		endIndex = startIndex + Number((params.end as string).slice(1));
+	} else if (end.startsWith("+"))
+		endIndex = startIndex + Number(end.slice(1));
 	else {
-		endIndex = lines.findIndex(
-			(line) => line.indexOf(params.end as string) > -1
-		);
+		endIndex = lines.findIndex((line) => line.indexOf(end) > -1);
 	}
 
 	if (startIndex > endIndex) {
@@ -356,12 +402,341 @@ export function getLineLimits(
 	if (endIndex === -1) {
 		throw Error("End line could not be found");
 	}
+	return { startIndex: startIndex, endIndex: endIndex };
+}
+
+function getRegionLimits(
+	lines: string[],
+	region: string
+): { startIndex: number; endIndex: number } {
+	const startIndex = lines.findIndex((line) => {
+		const regionMarker = getRegionMarker(line);
+		return regionMarker?.start && regionMarker.name === region;
+	});
+	if (startIndex === -1) throw Error(`Region '${region}' could not be found`);
+	const snippet = getRegionMarker(lines[startIndex])?.snippet;
+	let depth = 0;
+	for (let index = startIndex + 1; index < lines.length; index++) {
+		const regionMarker = getRegionMarker(lines[index]);
+		if (regionMarker === null || regionMarker.snippet !== snippet) continue;
+		if (snippet) {
+			if (!regionMarker.start && regionMarker.name === region)
+				return { startIndex: startIndex + 1, endIndex: index - 1 };
+		} else if (regionMarker.start) depth++;
+		else if (depth-- === 0)
+			return { startIndex: startIndex + 1, endIndex: index - 1 }; // Unnamed end markers close the innermost region
+	}
+	throw Error(`End of region '${region}' could not be found`);
+}
+
+function getRegionMarker(
+	line: string
+): { start: boolean; name: string; snippet: boolean } | null {
+	const regionMatch = /#\s*(?:pragma\s+)?(end)?region\b\s*(.*?)\s*(?:-->|\*\/)?\s*$/.exec(
+		line
+	); // #region and #endregion
+	if (regionMatch)
+		return {
+			start: !regionMatch[1],
+			name: regionMatch[2],
+			snippet: false,
+		};
+	const foldMatch = /<(\/)?editor-fold\b(?:[^>]*?\bdesc="([^"]*)")?/.exec(
+		line
+	); // <editor-fold desc="..."> and </editor-fold>
+	if (foldMatch)
+		return {
+			start: !foldMatch[1],
+			name: foldMatch[2] ?? "",
+			snippet: false,
+		};
+	const snippetMatch = /--8<--\s*\[(start|end):([^\]]+)\]/.exec(line); // MkDocs snippet sections
+	if (snippetMatch)
+		return {
+			start: snippetMatch[1] === "start",
+			name: snippetMatch[2].trim(),
+			snippet: true,
+		};
+	return null;
+}
+
+function getSymbolLimits(
+	lines: string[],
+	symbol: string,
+	language: string
+): { startIndex: number; endIndex: number } {
+	const languageInfo: Language | undefined =
+		LANGUAGES?.[LANGUAGE_NAMES?.[language] ?? language];
+	const codeLines = removeCommentsAndStrings(lines, languageInfo);
+	const symbolMatch = /^(?:(.*\S)\s+)?(\S+)$/.exec(symbol);
+	if (!symbolMatch) throw Error("Invalid symbol");
+	const names = symbolMatch[2].split(/\.|::/);
+	let limits = { startIndex: 0, endIndex: lines.length - 1 };
+	names.forEach((name, index) => {
+		const startIndex = findSymbolDefinition(
+			codeLines,
+			name,
+			index === names.length - 1 ? symbolMatch[1] ?? null : null,
+			index === 0 ? limits.startIndex : limits.startIndex + 1,
+			limits.endIndex
+		);
+		if (startIndex === -1)
+			throw Error(`Symbol '${name}' could not be found`);
+		limits = {
+			startIndex: startIndex,
+			endIndex: languageInfo?.indentedBlocks
+				? getIndentedBlockEnd(codeLines, startIndex, limits.endIndex)
+				: getBracedBlockEnd(codeLines, startIndex, limits.endIndex),
+		};
+	}); // Search for each name within the block of the previous name
+	while (
+		limits.startIndex > 0 &&
+		/^\s*(?:@|#\[)/.test(lines[limits.startIndex - 1])
+	)
+		limits.startIndex--; // Include decorators and attributes
+	return limits;
+}
+
+function findSymbolDefinition(
+	codeLines: string[],
+	name: string,
+	keyword: string | null,
+	startIndex: number,
+	endIndex: number
+): number {
+	const keywords =
+		keyword !== null ? escapeRegExp(keyword) : SYMBOL_KEYWORDS.join("|");
+	const declarationRegExp = new RegExp(
+		`(?<![\\w$.])(?:${keywords})\\s(?:[^=():]|\\([^()]*\\))*?(?<![\\w$])${escapeRegExp(
+			name
+		)}(?![\\w$])`
+	); // Keywords such as `class` or `def` followed by the name
+	const signatureRegExp = new RegExp(
+		`^\\s*((?:[\\w$<>\\[\\],*&?@]+\\s+)*)${escapeRegExp(
+			name
+		)}\\s*(?:<[^>]*>\\s*)?\\(`
+	); // Methods and functions declared without a keyword
+	for (let index = startIndex; index <= endIndex; index++) {
+		const declarationMatch = declarationRegExp.exec(codeLines[index]);
+		if (
+			declarationMatch &&
+			!/\b(?:extends|implements)\b/.test(declarationMatch[0])
+		)
+			return index;
+		if (keyword !== null) continue;
+		const signatureMatch = signatureRegExp.exec(codeLines[index]);
+		if (
+			signatureMatch &&
+			!signatureMatch[1]
+				.split(/\s+/)
+				.some((word) => STATEMENT_KEYWORDS.includes(word)) &&
+			isBlockOpened(codeLines, index, signatureMatch[0].length - 1)
+		)
+			return index;
+	}
+	return -1;
+}
+
+function isBlockOpened(
+	codeLines: string[],
+	lineIndex: number,
+	position: number
+): boolean {
+	const signatureEnd = getSignatureEnd(codeLines, lineIndex, position);
+	if (signatureEnd === null) return false;
+	const followingCode = `${codeLines[signatureEnd.lineIndex].slice(
+		signatureEnd.position + 1
+	)} ${codeLines?.[signatureEnd.lineIndex + 1] ?? ""}`;
+	return (
+		/^[^;{]*\{/.test(followingCode) ||
+		/^[^;]*:\s*$/.test(
+			codeLines[signatureEnd.lineIndex].slice(signatureEnd.position + 1)
+		)
+	); // Braces or a colon open the body rather than ending a call
+}
+
+function getSignatureEnd(
+	codeLines: string[],
+	lineIndex: number,
+	position: number
+): { lineIndex: number; position: number } | null {
+	let depth = 0;
+	for (
+		let index = lineIndex;
+		index < Math.min(codeLines.length, lineIndex + MAX_SIGNATURE_LINES);
+		index++
+	) {
+		const line = codeLines[index];
+		for (
+			let character = index === lineIndex ? position : 0;
+			character < line.length;
+			character++
+		) {
+			if (line[character] === "(") depth++;
+			else if (line[character] === ")" && --depth === 0)
+				return { lineIndex: index, position: character };
+		}
+	}
+	return null;
+}
+
+function getBracedBlockEnd(
+	codeLines: string[],
+	startIndex: number,
+	endIndex: number
+): number {
+	let depth = 0;
+	let opened = false;
+	for (let index = startIndex; index <= endIndex; index++) {
+		for (const character of codeLines[index]) {
+			if (character === "{") {
+				depth++;
+				opened = true;
+			} else if (character === "}") depth--;
+			else if (character === ";" && !opened && depth === 0)
+				return index; // Declarations without a body
+			if (opened && depth === 0) return index;
+		}
+	}
+	return startIndex;
+}
+
+function getIndentedBlockEnd(
+	codeLines: string[],
+	startIndex: number,
+	endIndex: number
+): number {
+	const indentation = getIndentation(codeLines[startIndex]);
+	const signatureEnd =
+		getSignatureEnd(codeLines, startIndex, 0)?.lineIndex ?? startIndex;
+	let blockEnd = signatureEnd;
+	for (let index = signatureEnd + 1; index <= endIndex; index++) {
+		if (codeLines[index].trim() === "") continue;
+		if (getIndentation(codeLines[index]) <= indentation) break;
+		blockEnd = index;
+	}
+	return blockEnd;
+}
+
+function getIndentation(line: string): number {
+	return /^\s*/.exec(line)?.[0].length ?? 0;
+}
+
+function removeCommentsAndStrings(
+	lines: string[],
+	languageInfo: Language | undefined
+): string[] {
+	const inlineComments = languageInfo?.inlineComment ?? [];
+	const blockComments = languageInfo?.blockComment ?? [];
+	let blockCommentClose: string | null = null;
+	return lines.map((line) => {
+		let code = "";
+		let index = 0;
+		while (index < line.length) {
+			if (blockCommentClose !== null) {
+				const closeIndex = line.indexOf(blockCommentClose, index);
+				const commentEnd =
+					closeIndex === -1
+						? line.length
+						: closeIndex + blockCommentClose.length;
+				if (closeIndex !== -1) blockCommentClose = null;
+				code += " ".repeat(commentEnd - index);
+				index = commentEnd;
+				continue;
+			}
+			const rest = line.slice(index);
+			if (inlineComments.some((comment) => rest.startsWith(comment)))
+				return code + " ".repeat(rest.length);
+			const blockComment = blockComments.find((comment) =>
+				rest.startsWith(comment.open)
+			);
+			if (blockComment) {
+				blockCommentClose = blockComment.close;
+				code += " ".repeat(blockComment.open.length);
+				index += blockComment.open.length;
+				continue;
+			}
+			const stringEnd = getStringEnd(line, index);
+			if (stringEnd === index) code += line[index];
+			else
+				code +=
+					line[index] +
+					" ".repeat(stringEnd - index - 1) +
+					line[stringEnd];
+			index = stringEnd + 1;
+		}
+		return code;
+	}); // Blank comments and strings so they are not mistaken for code
+}
+
+function getStringEnd(line: string, index: number): number {
+	const quote = line[index];
+	if (
+		!/["'`]/.test(quote) ||
+		(quote === "'" && /[\w&<]/.test(line?.[index - 1] ?? ""))
+	)
+		return index; // Skip apostrophes and lifetimes
+	for (let end = index + 1; end < line.length; end++) {
+		if (line[end] === "\\") end++;
+		else if (line[end] === quote) return end;
+	}
+	return index;
+}
+
+export function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function getLineIdentifierRanges(rangesString: string): LineIdentifierRange[] {
+	const identifier =
+		"\\d+|\"[^\"]*\"|'[^']*'|\\/(?:[^/\\\\]|\\\\.)*\\/"; // Numbers, quoted text and regular expressions
+	const rangeRegExp = new RegExp(
+		`^(${identifier})(?:\\s*-\\s*(${identifier})|\\s*(\\+\\d+))?$`
+	);
+	return (
+		rangesString
+			.trim()
+			.replace(/^\[(.*)\]$/, "$1")
+			.match(new RegExp(`(?:${identifier}|[^,])+`, "g")) ?? []
+	).map((rangeString) => {
+		const rangeMatch = rangeRegExp.exec(rangeString.trim());
+		if (!rangeMatch) throw Error(`Invalid line range '${rangeString}'`);
+		const start = getLineIdentifier(unquoteRegExp(rangeMatch[1]));
+		return {
+			start: start,
+			end:
+				getLineIdentifier(
+					unquoteRegExp(rangeMatch[2]) ?? rangeMatch[3]
+				) ?? start,
+		};
+	});
+}
+
+function unquoteRegExp(identifier: string | undefined): string | undefined {
+	return identifier?.replace(/^(["'])(\/.*\/)\1$/, "$2"); // Quoted regular expressions such as "/def main/"
+}
+
+function getLineAnchor(hash: string): LineAnchor | null {
+	const anchorMatch = /^#L(\d+)(?:C\d+)?(?:-L?(\d+)(?:C\d+)?)?$/.exec(hash);
+	if (!anchorMatch) return null;
+	const start = parseInt(anchorMatch[1]);
 	return {
-		startLine: startIndex + 1,
-		codeSection: lines.slice(startIndex, endIndex + 1).join("\n"),
+		hash: hash,
+		start: start,
+		end: anchorMatch[2] ? parseInt(anchorMatch[2]) : start,
 	};
 }
 
+function getBlockIdentifier(
+	blockIdentifier: string | number | undefined
+): string | number | null {
+	if (typeof blockIdentifier === "undefined") return null;
+	if (typeof blockIdentifier === "number") return blockIdentifier;
+	blockIdentifier = blockIdentifier.trim();
+	if (/^\d+$/.test(blockIdentifier)) return parseInt(blockIdentifier);
+	return blockIdentifier.replace(/^\^/, "") || null;
+}
+
 function getLineIdentifier(
 	lineIdentifier: string | number | undefined
 ): LineIdentifier {
@@ -398,8 +773,7 @@ function getLineIdentifier(
 	return null;
 }
 
-export function timeStamp(): string {
-	const date = new Date();
+export function timeStamp(date: Date = new Date()): string {
 	const year = date.getFullYear();
 	const month = String(date.getMonth() + 1).padStart(2, "0");
 	const day = String(date.getDate()).padStart(2, "0");
@@ -4,6 +4,9 @@ import {
 	sanitizeHTMLToDom,
 	FrontMatterCache,
 	MarkdownRenderer,
+	MarkdownView,
+	WorkspaceLeaf,
+	setTooltip,
 } from "obsidian";
 import { visitParents } from "unist-util-visit-parents";
 import { fromHtml } from "hast-util-from-html";
@@ -11,24 +14,68 @@ import { toHtml } from "hast-util-to-html";
 import { ElementContent, Element } from "hast";
 
 import CodeStylerPlugin from "./main";
-import { SETTINGS_SOURCEPATH_PREFIX, TRANSITION_LENGTH } from "./Settings";
+import {
+	KEYBOARD_LANGUAGE,
+	SETTINGS_SOURCEPATH_PREFIX,
+	TRANSITION_LENGTH,
+} from "./Settings";
 import {
 	CodeblockParameters,
+	DiffMarker,
+	LineNumberEnds,
+	getDiffMarker,
+	getCallout,
+	getDiffResult,
 	getFileContentLines,
+	getHiddenRange,
+	getListingNumbers,
+	groupCodeblocks,
+	numberCaptions,
+	parseDocumentCodeblocks,
 	isCodeblockIgnored,
+	isFileRuleIgnored,
 	isLanguageIgnored,
 	parseCodeblockSource,
 } from "./Parsing/CodeblockParsing";
 import {
 	InlineCodeParameters,
+	InlineCodeSpan,
+	getInlineCodeSpans,
 	parseInlineCode,
+	parseInlineCodeAttributes,
 } from "./Parsing/InlineCodeParsing";
+import { copyCodeblockLink } from "./Linking";
+import {
+	ColourPosition,
+	insertColourSwatches,
+	replaceColour,
+} from "./ColourSwatches";
 import {
+	createCalloutBadge,
 	createHeader,
 	createInlineOpener,
+	copyText,
+	createCaption,
+	createInlineCopyButton,
+	createKeyboardKeys,
+	getDiffLineClass,
+	getElisionText,
+	getInlineCopy,
+	getHighlightColourVariables,
+	getLineAnnotations,
 	getLineClass as getLineClasses,
+	getListingText,
+	getSelectedTab,
+	getTabLabel,
+	getTextHighlights,
+	getThemeClass,
+	setSelectedTab,
 } from "./CodeblockDecorating";
 
+const codeblockDependencies: Record<string, string[]> = {};
+const CROSS_REFERENCE_LINK_REGEX = /^#Listing:[a-zA-Z0-9-]+$/;
+const CROSS_REFERENCE_TEXT_REGEX = /(?<![\w@])@lst:([a-zA-Z0-9-]+)/g;
+
 export async function readingViewCodeblockDecoratingPostProcessor(
 	element: HTMLElement,
 	{
@@ -50,7 +97,8 @@ export async function readingViewCodeblockDecoratingPostProcessor(
 	if (
 		!sourcePath ||
 		!element ||
-		(frontmatter ?? cache?.frontmatter)?.["code-styler-ignore"] === true
+		(frontmatter ?? cache?.frontmatter)?.["code-styler-ignore"] === true ||
+		isFileRuleIgnored(sourcePath, plugin)
 	)
 		return;
 
@@ -60,7 +108,10 @@ export async function readingViewCodeblockDecoratingPostProcessor(
 	const printing =
 		Boolean(element.querySelector("div.print > *")) ||
 		Boolean(element.querySelector("div.slides > *"));
-	if (printing && !plugin.settings.decoratePrint) return;
+	if (printing && !plugin.settings.decoratePrint) {
+		await captionPrintedCodeblocks(element, sourcePath, cache, plugin);
+		return;
+	}
 
 	const codeblockPreElements: HTMLElement[] = await getCodeblockPreElements(
 		element,
@@ -103,6 +154,7 @@ export async function readingViewInlineDecoratingPostProcessor(
 	element: HTMLElement,
 	{
 		sourcePath,
+		getSectionInfo,
 	}: {
 		sourcePath: string;
 		getSectionInfo: (
@@ -113,11 +165,28 @@ export async function readingViewInlineDecoratingPostProcessor(
 	plugin: CodeStylerPlugin
 ) {
 	if (!sourcePath || !element) return;
-	for (const inlineCodeElement of Array.from(
+	const inlineCodeElements = Array.from(
 		element.querySelectorAll(":not(pre) > code")
-	)) {
-		await remakeInlineCode(inlineCodeElement as HTMLElement, plugin);
+	) as HTMLElement[];
+	const sectionInfo = getSectionInfo(element);
+	const inlineCodeSpans = getInlineCodeSpans(
+		sectionInfo?.text?.split("\n") ?? [],
+		sectionInfo?.lineStart ?? 0,
+		sectionInfo?.lineEnd ?? -1
+	);
+	for (const [index, inlineCodeElement] of inlineCodeElements.entries()) {
+		const parameters = await remakeInlineCode(inlineCodeElement, plugin);
+		addInlineCodeCopy(inlineCodeElement, parameters, plugin);
+		addInlineColourSwatches(
+			inlineCodeElement,
+			inlineCodeSpans.length === inlineCodeElements.length
+				? inlineCodeSpans[index]
+				: null,
+			sourcePath,
+			plugin
+		);
 	}
+	await remakeCrossReferences(element, sourcePath, plugin);
 }
 
 export function destroyReadingModeElements(): void {
@@ -142,16 +211,60 @@ export function destroyReadingModeElements(): void {
 				":not(pre) > code span.code-styler-inline-opener"
 			)
 		),
+		...Array.from(
+			document.querySelectorAll(
+				":not(pre) > code span.code-styler-inline-copy-button"
+			)
+		),
+		...Array.from(
+			document.querySelectorAll("code span.code-styler-colour-swatch")
+		),
+		...Array.from(
+			document.querySelectorAll(
+				"pre.code-styler-pre button.code-styler-copy-result"
+			)
+		),
+		...Array.from(
+			document.querySelectorAll("pre.code-styler-pre .code-styler-elision")
+		),
+		...Array.from(document.querySelectorAll(".code-styler-caption")),
 	].forEach((element) => element.remove());
+	document
+		.querySelectorAll("a[data-code-styler-reference]")
+		.forEach((link: HTMLElement) => {
+			const text = link.getAttribute("data-code-styler-reference") ?? "";
+			if (link.hasAttribute("data-code-styler-created"))
+				link.replaceWith(text);
+			else {
+				link.textContent = text;
+				link.removeAttribute("data-code-styler-reference");
+			}
+		}); // Restore cross-reference text
 	document
 		.querySelectorAll("pre.code-styler-pre")
 		.forEach((codeblockPreElement: HTMLElement) => {
 			codeblockPreElement.classList.remove("code-styler-pre");
 			codeblockPreElement.classList.remove("code-styler-folded");
+			codeblockPreElement.classList.remove(
+				...Array.from(codeblockPreElement.classList).filter(
+					(className) => className.startsWith("code-styler-theme-")
+				)
+			);
+			codeblockPreElement.removeAttribute("data-code-styler-id");
+			codeblockPreElement.removeAttribute("data-code-styler-group");
+			codeblockPreElement.removeAttribute("data-code-styler-tab-index");
+			codeblockPreElement.classList.remove("code-styler-tab-hidden");
 			codeblockPreElement.style.removeProperty("--true-height");
 			codeblockPreElement.style.removeProperty("--line-number-margin");
 			codeblockPreElement.style.removeProperty("max-height");
 			codeblockPreElement.style.removeProperty("white-space");
+			Array.from(codeblockPreElement.style)
+				.filter((property) =>
+					/^--code-styler-.+-highlight-colour$/.test(property)
+				)
+				.forEach((property) =>
+					codeblockPreElement.style.removeProperty(property)
+				); // Highlight colours set from codeblock parameters
 		});
 	document
 		.querySelectorAll("pre > code ~ code.language-output")
@@ -196,9 +309,16 @@ export function destroyReadingModeElements(): void {
 		.forEach((inlineCodeElement: HTMLElement) => {
 			inlineCodeElement.classList.remove("code-styler-highlighted");
 			inlineCodeElement.classList.remove("code-styler-highlight-ignore");
+			inlineCodeElement.removeAttribute("data-code-styler-copy");
+			inlineCodeElement.classList.remove("code-styler-inline-kbd");
 			inlineCodeElement.innerText =
 				inlineCodeElement.getAttribute("parameters") +
-				inlineCodeElement.innerText;
+				(inlineCodeElement.getAttribute("data-code-styler-keys") ??
+					inlineCodeElement.innerText);
+			if (inlineCodeElement.hasAttribute("trailing-parameters"))
+				inlineCodeElement.after(
+					inlineCodeElement.getAttribute("trailing-parameters") ?? ""
+				);
 		});
 }
 
@@ -208,6 +328,7 @@ export async function renderSpecificReadingSection(
 	codeblockSectionInfo: MarkdownSectionInformation,
 	plugin: CodeStylerPlugin
 ) {
+	const documentLines = codeblockSectionInfo.text.split("\n");
 	const codeblocksParameters = (
 		await parseCodeblockSource(
 			Array.from(
@@ -218,14 +339,36 @@ export async function renderSpecificReadingSection(
 						1,
 				},
 				(_, num) => num + codeblockSectionInfo.lineStart
-			).map(
-				(lineNumber) =>
-					codeblockSectionInfo.text.split("\n")[lineNumber]
-			),
+			).map((lineNumber) => documentLines[lineNumber]),
 			plugin,
-			sourcePath
+			sourcePath,
+			undefined,
+			codeblockSectionInfo.lineStart
 		)
 	).codeblocksParameters;
+	const documentCodeblocksParameters = parseDocumentCodeblocks(
+		documentLines,
+		plugin,
+		sourcePath
+	);
+	const sectionCodeblocksParameters = Array.from(
+		documentCodeblocksParameters.entries()
+	)
+		.filter(
+			([lineNumber]) =>
+				codeblockSectionInfo.lineStart <= lineNumber &&
+				lineNumber <= codeblockSectionInfo.lineEnd
+		)
+		.map(([, documentParameters]) => documentParameters);
+	codeblocksParameters.forEach((codeblockParameters, index) => {
+		const documentParameters = sectionCodeblocksParameters?.[index];
+		if (typeof documentParameters === "undefined") return;
+		if (codeblockParameters.lineNumbers.continuation.enabled)
+			codeblockParameters.lineNumbers.offset =
+				documentParameters.lineNumbers.offset;
+		codeblockParameters.group = documentParameters.group;
+		codeblockParameters.caption = documentParameters.caption;
+	}); // Apply context from the rest of the note
 	await remakeCodeblocks(
 		codeblockPreElements,
 		codeblocksParameters,
@@ -234,6 +377,63 @@ export async function renderSpecificReadingSection(
 		false,
 		plugin
 	);
+	addCodeblockColourSwatches(
+		codeblockPreElements,
+		Array.from(documentCodeblocksParameters.keys()).filter(
+			(lineNumber) =>
+				codeblockSectionInfo.lineStart <= lineNumber &&
+				lineNumber <= codeblockSectionInfo.lineEnd
+		),
+		sourcePath,
+		plugin
+	);
+	updateDependentCodeblocks(documentCodeblocksParameters, sourcePath, plugin);
+}
+
+function updateDependentCodeblocks(
+	documentCodeblocksParameters: Map<number, CodeblockParameters>,
+	sourcePath: string,
+	plugin: CodeStylerPlugin
+) {
+	const dependencies = Array.from(
+		documentCodeblocksParameters.values()
+	).map((codeblockParameters) =>
+		JSON.stringify([
+			codeblockParameters.lineNumbers.continuation.enabled
+				? codeblockParameters.lineNumbers.offset
+				: null,
+			codeblockParameters.group.tabs,
+			codeblockParameters.caption.number,
+		])
+	);
+	const previousDependencies = codeblockDependencies[sourcePath];
+	codeblockDependencies[sourcePath] = dependencies;
+	if (typeof previousDependencies === "undefined") return;
+	const changedLines = Array.from(documentCodeblocksParameters.keys()).filter(
+		(_, index) => previousDependencies[index] !== dependencies[index]
+	);
+	if (changedLines.length === 0) return;
+	plugin.app.workspace.iterateRootLeaves((leaf: WorkspaceLeaf) => {
+		if (
+			!(leaf.view instanceof MarkdownView) ||
+			leaf.view.getMode() !== "preview" ||
+			leaf.view.file?.path !== sourcePath
+		)
+			return;
+		//@ts-expect-error Undocumented Obsidian API
+		for (const section of leaf.view.previewMode.renderer.sections.filter(
+			(section: { lineStart: number; lineEnd: number }) =>
+				changedLines.some(
+					(lineNumber) =>
+						section.lineStart <= lineNumber &&
+						lineNumber <= section.lineEnd
+				)
+		)) {
+			section.rendered = false;
+			section.html = "";
+		}
+		leaf.view.previewMode.rerender();
+	}); // Re-render only the sections of codeblocks depending on an edited codeblock
 }
 
 async function renderSettings(
@@ -275,6 +475,66 @@ async function renderDocument(
 		true,
 		plugin
 	);
+	addCodeblockColourSwatches(codeblockPreElements, [], sourcePath, plugin);
+}
+
+function addCodeblockColourSwatches(
+	codeblockPreElements: HTMLElement[],
+	openingLines: number[],
+	sourcePath: string,
+	plugin: CodeStylerPlugin
+): void {
+	codeblockPreElements.forEach((codeblockPreElement, index) => {
+		const openingLine =
+			openingLines.length === codeblockPreElements.length
+				? openingLines[index]
+				: null;
+		codeblockPreElement
+			.querySelectorAll("pre > code:nth-of-type(1) .code-styler-line-text")
+			.forEach((lineText: HTMLElement, lineIndex) => {
+				if (openingLine === null) {
+					insertColourSwatches(lineText);
+					return;
+				}
+				const position: ColourPosition = {
+					line: openingLine + lineIndex + 1,
+					from: 0,
+				};
+				insertColourSwatches(lineText, (value, occurrence, colour) =>
+					replaceColour(
+						sourcePath,
+						position,
+						value,
+						occurrence,
+						colour,
+						plugin
+					)
+				);
+			});
+	});
+}
+
+async function captionPrintedCodeblocks(
+	element: HTMLElement,
+	sourcePath: string,
+	cache: CachedMetadata | null,
+	plugin: CodeStylerPlugin
+) {
+	const codeblockPreElements = await getCodeblockPreElements(
+		element,
+		true,
+		false
+	);
+	const codeblocksParameters = await getCodeblocksParameters(
+		sourcePath,
+		cache,
+		plugin,
+		false
+	);
+	if (codeblockPreElements.length !== codeblocksParameters.length) return;
+	codeblockPreElements.forEach((codeblockPreElement, index) =>
+		insertCaption(codeblockPreElement, codeblocksParameters[index], plugin)
+	);
 }
 
 async function retriggerProcessor(
@@ -386,6 +646,7 @@ async function remakeCodeblock(
 		plugin,
 		dynamic
 	);
+	insertCaption(codeblockPreElement, codeblockParameters, plugin);
 
 	codeblockPreElement.classList.add(
 		...getPreClasses(codeblockParameters, dynamic)
@@ -394,40 +655,111 @@ async function remakeCodeblock(
 		"defaultFold",
 		codeblockParameters.fold.enabled.toString()
 	);
+	if (codeblockParameters.id)
+		codeblockPreElement.setAttribute(
+			"data-code-styler-id",
+			codeblockParameters.id
+		);
+	if (codeblockParameters.group.tabs.length !== 0) {
+		codeblockPreElement.setAttribute(
+			"data-code-styler-group",
+			codeblockParameters.group.name
+		);
+		codeblockPreElement.setAttribute(
+			"data-code-styler-tab-index",
+			codeblockParameters.group.index.toString()
+		);
+		if (
+			dynamic &&
+			codeblockParameters.group.index !==
+				getSelectedTab(codeblockParameters.group, sourcePath, plugin)
+		)
+			codeblockPreElement.classList.add("code-styler-tab-hidden");
+	}
+	Object.entries(getHighlightColourVariables(codeblockParameters)).forEach(
+		([cssVariable, colour]) =>
+			codeblockPreElement.style.setProperty(cssVariable, colour)
+	);
 	if (codeblockPreElement.parentElement)
 		codeblockPreElement.parentElement.classList.add(
 			"code-styler-pre-parent"
 		);
 
-	if (!codeblockCodeElement.querySelector("code [class*='code-styler-line']"))
+	if (
+		!codeblockCodeElement.querySelector("code [class*='code-styler-line']")
+	) {
 		// Ignore styled lines
+		let diffMarkers: DiffMarker[] = [];
+		if (codeblockParameters.diff.enabled)
+			diffMarkers = await remakeDiffCode(
+				codeblockCodeElement,
+				codeblockPreElement,
+				codeblockParameters,
+				plugin
+			);
 		decorateCodeblockLines(
 			codeblockCodeElement,
 			codeblockParameters,
 			sourcePath,
-			plugin
+			plugin,
+			diffMarkers
 		);
+	}
+}
+
+async function remakeDiffCode(
+	codeblockCodeElement: HTMLElement,
+	codeblockPreElement: HTMLElement,
+	codeblockParameters: CodeblockParameters,
+	plugin: CodeStylerPlugin
+): Promise<DiffMarker[]> {
+	const codeblockLines = (codeblockCodeElement.textContent ?? "")
+		.replace(/\n$/, "")
+		.split("\n");
+	const diffMarkers = codeblockLines.map((line) => getDiffMarker(line));
+	codeblockCodeElement.innerHTML = await getHighlightedHTML(
+		codeblockParameters.language,
+		codeblockLines
+			.map((line, index) =>
+				diffMarkers[index] !== "" ? line.slice(1) : line
+			)
+			.join("\n"),
+		plugin,
+		false
+	); // Highlight without markers
+	if (!codeblockPreElement.querySelector("button.code-styler-copy-result")) {
+		const copyResultButton = createEl("button", {
+			cls: "code-styler-copy-result",
+			text: "Copy result",
+		});
+		copyResultButton.addEventListener("click", () =>
+			copyText(getDiffResult(codeblockLines), copyResultButton)
+		);
+		codeblockPreElement.appendChild(copyResultButton);
+	}
+	return diffMarkers;
 }
 
 async function remakeInlineCode(
 	inlineCodeElement: HTMLElement,
 	plugin: CodeStylerPlugin
-): Promise<void> {
+): Promise<InlineCodeParameters | null> {
 	if (
 		!plugin.settings.currentTheme.settings.inline.syntaxHighlight ||
 		inlineCodeElement.classList.contains("code-styler-inline")
 	)
-		return;
+		return null;
 	const inlineCodeText = inlineCodeElement.innerText;
 	const { parameters, text } = parseInlineCode(inlineCodeText);
+	if (!parameters && text === inlineCodeText)
+		return await remakeAttributedInlineCode(inlineCodeElement, plugin);
 	if (parameters) {
-		inlineCodeElement.innerHTML = await getHighlightedHTML(
-			parameters,
+		await setInlineCodeContent(
+			inlineCodeElement,
+			parameters.language,
 			text,
 			plugin
 		);
-		inlineCodeElement.innerHTML =
-			inlineCodeElement.innerHTML + "&ZeroWidthSpace;";
 		inlineCodeElement.classList.add("code-styler-inline");
 		const parameterString = inlineCodeText.substring(
 			0,
@@ -443,6 +775,182 @@ async function remakeInlineCode(
 		inlineCodeElement.innerText = text;
 		inlineCodeElement.classList.add("code-styler-inline");
 	}
+	return parameters;
+}
+
+async function remakeAttributedInlineCode(
+	inlineCodeElement: HTMLElement,
+	plugin: CodeStylerPlugin
+): Promise<InlineCodeParameters | null> {
+	const followingNode = inlineCodeElement.nextSibling;
+	if (followingNode?.nodeType !== Node.TEXT_NODE) return null;
+	const trailingAttributes = parseInlineCodeAttributes(
+		followingNode.textContent ?? ""
+	);
+	if (!trailingAttributes) return null;
+	const { parameters, length } = trailingAttributes;
+	await setInlineCodeContent(
+		inlineCodeElement,
+		parameters.language,
+		inlineCodeElement.innerText,
+		plugin
+	);
+	inlineCodeElement.classList.add("code-styler-inline");
+	inlineCodeElement.setAttribute("parameters", "");
+	inlineCodeElement.setAttribute(
+		"trailing-parameters",
+		followingNode.textContent?.slice(0, length) ?? ""
+	); // Store trailing attributes so original text can be restored on plugin removal
+	followingNode.textContent = followingNode.textContent?.slice(length) ?? "";
+	if (parameters.icon || parameters.title)
+		inlineCodeElement.insertBefore(
+			createInlineOpener(parameters, plugin.languageIcons),
+			inlineCodeElement.childNodes[0]
+		);
+	return parameters;
+}
+
+async function setInlineCodeContent(
+	inlineCodeElement: HTMLElement,
+	language: string,
+	text: string,
+	plugin: CodeStylerPlugin
+): Promise<void> {
+	if (language !== KEYBOARD_LANGUAGE) {
+		inlineCodeElement.innerHTML =
+			(await getHighlightedHTML(language, text, plugin)) +
+			"&ZeroWidthSpace;";
+		return;
+	}
+	inlineCodeElement.setAttribute("data-code-styler-keys", text); // Store keys so original text can be restored
+	inlineCodeElement.classList.add("code-styler-inline-kbd");
+	inlineCodeElement.replaceChildren(createKeyboardKeys(text));
+}
+
+function addInlineCodeCopy(
+	inlineCodeElement: HTMLElement,
+	parameters: InlineCodeParameters | null,
+	plugin: CodeStylerPlugin
+): void {
+	if (inlineCodeElement.hasAttribute("data-code-styler-copy")) return;
+	const copy = getInlineCopy(
+		parameters,
+		plugin.settings.currentTheme.settings
+	);
+	inlineCodeElement.setAttribute("data-code-styler-copy", copy);
+	if (copy === "none") return;
+	const text = Array.from(inlineCodeElement.childNodes)
+		.filter(
+			(node) =>
+				!(node as HTMLElement).classList?.contains(
+					"code-styler-inline-opener"
+				)
+		)
+		.map((node) => node.textContent ?? "")
+		.join("")
+		.replace(/\u200B/g, ""); // Remove zero width spaces
+	if (copy === "button")
+		inlineCodeElement.appendChild(createInlineCopyButton(text));
+	else
+		inlineCodeElement.addEventListener("click", () => {
+			if (inlineCodeElement.hasAttribute("data-code-styler-copy"))
+				copyText(text, inlineCodeElement);
+		});
+}
+
+function addInlineColourSwatches(
+	inlineCodeElement: HTMLElement,
+	inlineCodeSpan: InlineCodeSpan | null,
+	sourcePath: string,
+	plugin: CodeStylerPlugin
+): void {
+	if (inlineCodeElement.classList.contains("code-styler-inline-kbd")) return;
+	if (inlineCodeSpan === null) {
+		insertColourSwatches(inlineCodeElement);
+		return;
+	}
+	const { text } = parseInlineCode(inlineCodeSpan.text);
+	const position: ColourPosition = {
+		line: inlineCodeSpan.line,
+		from: inlineCodeSpan.from + inlineCodeSpan.text.lastIndexOf(text),
+	}; // Skip the parameters of the inline code
+	insertColourSwatches(inlineCodeElement, (value, occurrence, colour) =>
+		replaceColour(sourcePath, position, value, occurrence, colour, plugin)
+	);
+}
+
+async function remakeCrossReferences(
+	element: HTMLElement,
+	sourcePath: string,
+	plugin: CodeStylerPlugin
+): Promise<void> {
+	if (sourcePath.startsWith(SETTINGS_SOURCEPATH_PREFIX)) return;
+	const crossReferenceLinks = Array.from(
+		element.querySelectorAll("a.internal-link")
+	).filter((link) =>
+		CROSS_REFERENCE_LINK_REGEX.test(link.getAttribute("data-href") ?? "")
+	);
+	const crossReferenceTextNodes: Text[] = [];
+	const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+	while (walker.nextNode()) {
+		const textNode = walker.currentNode as Text;
+		if (
+			/@lst:[a-zA-Z0-9-]/.test(textNode.data) &&
+			!textNode.parentElement?.closest("code, pre, a")
+		)
+			crossReferenceTextNodes.push(textNode);
+	}
+	if (
+		crossReferenceLinks.length === 0 &&
+		crossReferenceTextNodes.length === 0
+	)
+		return;
+
+	const listingNumbers = getListingNumbers(
+		await getFileContentLines(sourcePath, plugin),
+		plugin,
+		sourcePath
+	);
+	crossReferenceLinks.forEach((link) => {
+		const id = (link.getAttribute("data-href") ?? "").slice(
+			"#Listing:".length
+		);
+		if (
+			id in listingNumbers &&
+			link.textContent?.endsWith(`Listing:${id}`)
+		) {
+			link.setAttribute("data-code-styler-reference", link.textContent);
+			link.textContent = getListingText(listingNumbers[id]); // Keep aliases
+		}
+	});
+	crossReferenceTextNodes.forEach((textNode) => {
+		const fragment = document.createDocumentFragment();
+		let lastIndex = 0;
+		for (const crossReferenceMatch of textNode.data.matchAll(
+			CROSS_REFERENCE_TEXT_REGEX
+		)) {
+			const id = crossReferenceMatch[1];
+			if (!(id in listingNumbers)) continue;
+			fragment.append(
+				textNode.data.slice(lastIndex, crossReferenceMatch.index),
+				createEl("a", {
+					cls: "internal-link",
+					text: getListingText(listingNumbers[id]),
+					href: `#Listing:${id}`,
+					attr: {
+						"data-href": `#Listing:${id}`,
+						"data-code-styler-reference": crossReferenceMatch[0],
+						"data-code-styler-created": "",
+					},
+				})
+			);
+			lastIndex =
+				(crossReferenceMatch.index ?? 0) +
+				crossReferenceMatch[0].length;
+		}
+		fragment.append(textNode.data.slice(lastIndex));
+		textNode.replaceWith(fragment);
+	});
 }
 
 async function getCodeblockPreElements(
@@ -488,6 +996,10 @@ async function getCodeblocksParameters(
 ): Promise<CodeblockParameters[]> {
 	let codeblocksParameters: CodeblockParameters[] = [];
 	const fileContentLines = await getFileContentLines(sourcePath, plugin);
+	const lineNumberEnds: LineNumberEnds = {
+		previous: 0,
+		ids: {},
+	};
 
 	if (typeof cache?.sections !== "undefined") {
 		for (const section of cache.sections) {
@@ -502,7 +1014,9 @@ async function getCodeblocksParameters(
 						section.position.end.line + 1
 					),
 					plugin,
-					sourcePath
+					sourcePath,
+					lineNumberEnds,
+					section.position.start.line
 				);
 				if (!editingEmbeds || parsedCodeblocksParameters.nested)
 					codeblocksParameters = codeblocksParameters.concat(
@@ -511,6 +1025,14 @@ async function getCodeblocksParameters(
 			}
 		}
 	} else console.error(`Metadata cache not found for file: ${sourcePath}`);
+	groupCodeblocks(codeblocksParameters, fileContentLines);
+	numberCaptions(codeblocksParameters);
+	if (!editingEmbeds)
+		updateDependentCodeblocks(
+			parseDocumentCodeblocks(fileContentLines, plugin, sourcePath),
+			sourcePath,
+			plugin
+		);
 	return codeblocksParameters;
 }
 
@@ -525,7 +1047,15 @@ function insertHeader(
 		codeblockParameters,
 		plugin.settings.currentTheme.settings,
 		sourcePath,
-		plugin
+		plugin,
+		(index) =>
+			selectTab(
+				codeblockPreElement,
+				codeblockParameters,
+				index,
+				sourcePath,
+				plugin
+			)
 	);
 	if (dynamic)
 		headerContainer.addEventListener("click", () => {
@@ -536,6 +1066,54 @@ function insertHeader(
 		codeblockPreElement.childNodes[0]
 	);
 }
+function insertCaption(
+	codeblockPreElement: HTMLElement,
+	codeblockParameters: CodeblockParameters,
+	plugin: CodeStylerPlugin
+): void {
+	[
+		codeblockPreElement.previousElementSibling,
+		codeblockPreElement.nextElementSibling,
+	].forEach((siblingElement) => {
+		if (siblingElement?.classList.contains("code-styler-caption"))
+			siblingElement.remove();
+	}); // Remove captions of previous renders
+	if (codeblockParameters.caption.number === 0) return;
+	if (plugin.settings.captionPosition === "above")
+		codeblockPreElement.before(createCaption(codeblockParameters));
+	else codeblockPreElement.after(createCaption(codeblockParameters));
+}
+
+function selectTab(
+	codeblockPreElement: HTMLElement,
+	codeblockParameters: CodeblockParameters,
+	index: number,
+	sourcePath: string,
+	plugin: CodeStylerPlugin
+) {
+	setSelectedTab(codeblockParameters.group, index, sourcePath, plugin);
+	const label = getTabLabel(codeblockParameters.group.tabs[index]);
+	(
+		codeblockPreElement.matchParent(".markdown-preview-view") ?? document
+	)
+		.querySelectorAll("pre[data-code-styler-group]")
+		.forEach((groupPreElement) => {
+			if (
+				groupPreElement.getAttribute("data-code-styler-group") !==
+				codeblockParameters.group.name
+			)
+				return;
+			const labels = Array.from(
+				groupPreElement.querySelectorAll(".code-styler-tab")
+			).map((tab) => tab.getAttribute("data-code-styler-tab"));
+			groupPreElement.classList.toggle(
+				"code-styler-tab-hidden",
+				groupPreElement.getAttribute("data-code-styler-tab-index") !==
+					Math.max(labels.indexOf(label), 0).toString()
+			);
+		}); // Show the selected tab of every group with this name
+}
+
 export function readingDocumentFold(contentEl: HTMLElement, fold?: boolean) {
 	const codeblockPreElements = contentEl.querySelectorAll(
 		"pre.code-styler-pre"
@@ -605,6 +1183,8 @@ function getPreClasses(
 	const preClassList = ["code-styler-pre"];
 	if (codeblockParameters.language)
 		preClassList.push(`language-${codeblockParameters.language}`);
+	if (codeblockParameters.theme)
+		preClassList.push(getThemeClass(codeblockParameters.theme));
 	if (dynamic) {
 		if (codeblockParameters.fold.enabled)
 			preClassList.push("code-styler-folded");
@@ -624,9 +1204,12 @@ function decorateCodeblockLines(
 	codeblockCodeElement: HTMLElement,
 	codeblockParameters: CodeblockParameters,
 	sourcePath: string,
-	plugin: CodeStylerPlugin
+	plugin: CodeStylerPlugin,
+	diffMarkers: DiffMarker[] = []
 ): void {
 	let indentation = 0;
+	let elisionRow: HTMLElement | null = null;
+	let elidedLines: HTMLElement[] = [];
 	getCodeblockLines(codeblockCodeElement, sourcePath, plugin).forEach(
 		(line, index, codeblockLines) => {
 			const currentIndentation = countTabs(line);
@@ -640,14 +1223,40 @@ function decorateCodeblockLines(
 			if (currentIndentation > 0) {
 				//TODO (@mayurankv) Add indentation line
 			}
-			if (index !== codeblockLines.length - 1)
-				insertLineWrapper(
-					codeblockCodeElement,
-					codeblockParameters,
-					index + 1,
-					line,
-					plugin.settings.currentTheme.settings.codeblock.lineNumbers
+			if (index === codeblockLines.length - 1) return;
+			const lineWrapper = insertLineWrapper(
+				codeblockCodeElement,
+				codeblockParameters,
+				index + 1,
+				line,
+				plugin.settings.currentTheme.settings.codeblock.lineNumbers,
+				diffMarkers[index] ?? ""
+			);
+			const lineNumberElement = lineWrapper.querySelector(
+				".code-styler-line-number"
+			);
+			if (codeblockParameters.id && lineNumberElement) {
+				lineNumberElement.classList.add(
+					"code-styler-line-number-linked"
 				);
+				lineNumberElement.addEventListener("click", () =>
+					copyCodeblockLink(
+						sourcePath,
+						codeblockParameters.id,
+						index + 1 + codeblockParameters.lineNumbers.offset,
+						plugin
+					)
+				);
+			}
+			if (!getHiddenRange(codeblockParameters, index + 1)) {
+				elidedLines = [];
+				return;
+			}
+			if (elidedLines.length === 0)
+				elisionRow = insertElisionRow(lineWrapper, elidedLines);
+			lineWrapper.classList.add("code-styler-elided");
+			elidedLines.push(lineWrapper);
+			elisionRow?.setText(getElisionText(elidedLines.length));
 		}
 	);
 }
@@ -770,30 +1379,108 @@ function insertLineWrapper(
 	params: CodeblockParameters,
 	lineNumber: number,
 	line: string,
-	showLineNumbers: boolean
-): void {
+	showLineNumbers: boolean,
+	diffMarker: DiffMarker = ""
+): HTMLElement {
 	const lineWrapper = document.createElement("div");
-	el.appendChild(lineWrapper);
-	getLineClasses(params, lineNumber, line).forEach((lineClass) =>
-		lineWrapper.classList.add(lineClass)
+	lineWrapper.setAttribute(
+		"data-line-number",
+		(lineNumber + params.lineNumbers.offset).toString()
 	);
+	el.appendChild(lineWrapper);
+	getLineClasses(params, lineNumber, line)
+		.concat(getDiffLineClass(diffMarker))
+		.forEach((lineClass) => lineWrapper.classList.add(lineClass));
+	let lineNumberElement: HTMLElement | null = null;
 	if (
 		(showLineNumbers && !params.lineNumbers.alwaysDisabled) ||
 		params.lineNumbers.alwaysEnabled
 	) {
-		lineWrapper.appendChild(
-			createDiv({
-				cls: "code-styler-line-number",
-				text: (lineNumber + params.lineNumbers.offset).toString(),
-			})
-		);
+		lineNumberElement = createDiv({
+			cls: "code-styler-line-number",
+			text: (lineNumber + params.lineNumbers.offset).toString(),
+		});
+		lineWrapper.appendChild(lineNumberElement);
 	}
-	lineWrapper.appendChild(
-		createDiv({
-			cls: "code-styler-line-text",
-			text: sanitizeHTMLToDom(line !== "" ? line : "<br>"),
-		})
+	const lineText = createDiv({
+		cls: "code-styler-line-text",
+		text: sanitizeHTMLToDom(line !== "" ? line : "<br>"),
+	});
+	getTextHighlights(params, lineNumber, lineText.textContent ?? "").forEach(
+		(textHighlight) =>
+			wrapTextRange(
+				lineText,
+				textHighlight.from,
+				textHighlight.to,
+				textHighlight.className
+			)
 	);
+	const callout = getCallout(lineText.textContent ?? "", params.language);
+	if (callout) {
+		wrapTextRange(
+			lineText,
+			callout.from,
+			callout.to,
+			"code-styler-callout-comment"
+		);
+		callout.numbers.forEach((calloutNumber) =>
+			lineText.appendChild(createCalloutBadge(calloutNumber))
+		);
+	}
+	if (diffMarker !== "")
+		lineText.insertBefore(
+			createSpan({ cls: "code-styler-diff-marker", text: diffMarker }),
+			lineText.childNodes[0]
+		); // Insert after highlighting so text offsets exclude the marker
+	const annotations = getLineAnnotations(params, lineNumber, line);
+	if (annotations.length !== 0) {
+		const annotationMarker = createSpan({
+			cls: "code-styler-annotation-marker",
+		});
+		setTooltip(annotationMarker, annotations.join("\n"));
+		(lineNumberElement ?? lineText).appendChild(annotationMarker); // Place marker in gutter where possible
+	}
+	lineWrapper.appendChild(lineText);
+	return lineWrapper;
+}
+
+function insertElisionRow(
+	lineWrapper: HTMLElement,
+	elidedLines: HTMLElement[]
+): HTMLElement {
+	const elisionRow = createDiv({ cls: "code-styler-elision" });
+	elisionRow.addEventListener("click", () => {
+		elidedLines.forEach((elidedLine) =>
+			elidedLine.classList.remove("code-styler-elided")
+		);
+		elisionRow.remove();
+	});
+	lineWrapper.parentElement?.insertBefore(elisionRow, lineWrapper);
+	return elisionRow;
+}
+
+function wrapTextRange(
+	element: HTMLElement,
+	from: number,
+	to: number,
+	className: string
+): void {
+	const textNodes: Text[] = [];
+	const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+	while (walker.nextNode()) textNodes.push(walker.currentNode as Text);
+	let position = 0;
+	textNodes.forEach((textNode) => {
+		const start = position;
+		const end = position + textNode.length;
+		position = end;
+		if (end <= from || start >= to) return;
+		let wrappedNode = textNode;
+		if (from > start) wrappedNode = wrappedNode.splitText(from - start);
+		if (to < end) wrappedNode.splitText(to - Math.max(from, start));
+		const wrapper = createSpan({ cls: className });
+		wrappedNode.parentNode?.insertBefore(wrapper, wrappedNode);
+		wrapper.appendChild(wrappedNode);
+	});
 }
 
 function countTabs(text: string): number {
@@ -805,14 +1492,15 @@ function countTabs(text: string): number {
 }
 
 async function getHighlightedHTML(
-	params: InlineCodeParameters,
+	language: string,
 	text: string,
-	plugin: CodeStylerPlugin
+	plugin: CodeStylerPlugin,
+	inline = true
 ): Promise<string> {
 	const container = createDiv();
 	MarkdownRenderer.render(
 		plugin.app,
-		["```", params.language, "\n", text, "\n", "```"].join(""),
+		["```", language, "\n", text, "\n", "```"].join(""),
 		container,
 		"",
 		plugin
@@ -820,7 +1508,9 @@ async function getHighlightedHTML(
 	const el = container.querySelector("code");
 	if (!el) return "ERROR: Could not render highlighted code";
 	while (
-		plugin.settings.currentTheme.settings.inline.syntaxHighlight &&
+		(!inline ||
+			plugin.settings.currentTheme.settings.inline.syntaxHighlight) &&
+		language !== "" &&
 		!el.classList.contains("is-loaded")
 	) {
 		await sleep(2);
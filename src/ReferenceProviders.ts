@@ -0,0 +1,511 @@
+import { request, requestUrl } from "obsidian";
+import { basename } from "path";
+
+import {
+	ExtRef,
+	ExtRefMetadata,
+	ExtRefParams,
+	timeStamp,
+} from "src/Parsing/ReferenceParsing";
+import { CodeStylerSettings } from "src/Settings";
+
+export interface ReferenceProvider {
+	site: string;
+	match: (url: URL) => RepositoryFile | null;
+	fetchContent: (
+		file: RepositoryFile,
+		headers: Record<string, string>
+	) => Promise<string>;
+	fetchMetadata: (
+		file: RepositoryFile,
+		headers: Record<string, string>
+	) => Promise<Partial<ExtRefMetadata>>;
+}
+
+export interface RepositoryFile {
+	owner: string;
+	repository: string;
+	ref: string;
+	refType: "branch" | "tree";
+	path: string;
+	displayUrl: string;
+}
+
+interface GitHubCommit {
+	commit?: { author?: { date?: string } };
+}
+
+interface GitLabCommit {
+	authored_date?: string;
+}
+
+interface BitbucketCommits {
+	values?: { date?: string }[];
+}
+
+interface Gist {
+	files: Record<string, { filename: string; content: string }>;
+	updated_at?: string;
+}
+
+const GITHUB_URL = "https://github.com";
+const GITHUB_RAW_URL = "https://raw.githubusercontent.com";
+const GITHUB_API_URL = "https://api.github.com";
+const GIST_URL = "https://gist.github.com";
+const GIST_RAW_URL = "https://gist.githubusercontent.com";
+const GITLAB_URL = "https://gitlab.com";
+const CODEBERG_URL = "https://codeberg.org";
+const BITBUCKET_URL = "https://bitbucket.org";
+const BITBUCKET_API_URL = "https://api.bitbucket.org/2.0";
+const SOURCEHUT_URL = "https://git.sr.ht";
+
+export function getReferenceProviders(
+	settings: CodeStylerSettings
+): ReferenceProvider[] {
+	return [
+		createGitHubProvider(),
+		createGistProvider(),
+		createGitLabProvider(),
+		...getHosts(settings.externalReferenceGitLabHosts).map((host) =>
+			createGitLabProvider(host)
+		),
+		createGiteaProvider(),
+		...getHosts(settings.externalReferenceGiteaHosts).map((host) =>
+			createGiteaProvider(host)
+		),
+		createBitbucketProvider(),
+		createSourceHutProvider(),
+	];
+}
+
+export async function _fetchExtRef(
+	params: ExtRefParams,
+	providers: ReferenceProvider[]
+): Promise<ExtRef> {
+	try {
+		const url = new URL(params.rawUrl);
+		for (const provider of providers) {
+			const file = provider.match(url);
+			if (file === null) continue;
+			return {
+				id: params.id,
+				params: params,
+				content: await provider.fetchContent(file, params.headers),
+				metadata: await provider
+					.fetchMetadata(file, params.headers)
+					.catch(() => getMetadata(provider.site, file)), // Metadata is optional
+			};
+		}
+		return {
+			id: params.id,
+			params: params,
+			content: await request({
+				url: params.rawUrl,
+				headers: params.headers,
+			}),
+			metadata: {
+				datetime: timeStamp(),
+			},
+		};
+	} catch (error) {
+		throw Error(`Could not fetch external URL: ${error}`);
+	}
+}
+
+export function createGitHubProvider(
+	baseUrl: string = GITHUB_URL,
+	rawUrl: string = GITHUB_RAW_URL,
+	apiUrl: string = GITHUB_API_URL
+): ReferenceProvider {
+	const getHeaders = (headers: Record<string, string>) => ({
+		Accept: "application/vnd.github+json",
+		"X-GitHub-Api-Version": "2022-11-28",
+		"User-Agent": "Obsidian-Code-Styler",
+		...headers,
+	});
+	const getRepositoryUrl = (file: RepositoryFile) =>
+		`${apiUrl}/repos/${file.owner}/${file.repository}`;
+	return {
+		site: "github",
+		match: (url) => {
+			let segments = getPathSegments(url, baseUrl);
+			if (segments !== null) {
+				if (!["blob", "raw"].includes(segments[2])) return null;
+				segments = [...segments.slice(0, 2), ...segments.slice(3)];
+			} else segments = getPathSegments(url, rawUrl);
+			if (segments === null || segments.length < 4) return null;
+			const [owner, repository, ...refPath] = segments;
+			const { ref, path } = splitRef(refPath);
+			return {
+				owner: owner,
+				repository: repository,
+				ref: ref,
+				refType: getRefType(ref),
+				path: path,
+				displayUrl: `${baseUrl}/${owner}/${repository}/blob/${ref}/${encodePath(path)}`,
+			};
+		},
+		fetchContent: async (file, headers) =>
+			await requestText(
+				`${getRepositoryUrl(file)}/contents/${encodePath(
+					file.path
+				)}?ref=${encodeURIComponent(file.ref)}`,
+				{
+					...getHeaders(headers),
+					Accept: "application/vnd.github.raw",
+				}
+			),
+		fetchMetadata: async (file, headers) => {
+			const commits = await requestJson<GitHubCommit[]>(
+				`${getRepositoryUrl(file)}/commits?${getQuery({
+					sha: file.ref,
+					path: file.path,
+					per_page: "1",
+				})}`,
+				getHeaders(headers)
+			);
+			return getMetadata(
+				"github",
+				file,
+				commits?.[0]?.commit?.author?.date
+			);
+		},
+	};
+}
+
+export function createGistProvider(
+	baseUrl: string = GIST_URL,
+	rawUrl: string = GIST_RAW_URL,
+	apiUrl: string = GITHUB_API_URL
+): ReferenceProvider {
+	const getGist = async (
+		file: RepositoryFile,
+		headers: Record<string, string>
+	) =>
+		await requestJson<Gist>(
+			[apiUrl, "gists", file.repository, file.ref]
+				.filter((part) => part !== "")
+				.join("/"),
+			{
+				Accept: "application/vnd.github+json",
+				"User-Agent": "Obsidian-Code-Styler",
+				...headers,
+			}
+		);
+	const getGistFile = (gist: Gist, file: RepositoryFile) =>
+		gist.files?.[file.path] ?? Object.values(gist.files ?? {})[0]; // Use the first file by default
+	return {
+		site: "github",
+		match: (url) => {
+			let segments = getPathSegments(url, baseUrl);
+			let path = "";
+			if (segments === null) {
+				segments = getPathSegments(url, rawUrl);
+				if (segments === null || segments[2] !== "raw") return null;
+				path = segments[segments.length - 1];
+				segments = [
+					...segments.slice(0, 2),
+					...segments.slice(3, -1),
+				];
+			}
+			if (segments.length < 2 || segments[1] === "") return null;
+			const [owner, id, revision = ""] = segments;
+			return {
+				owner: owner,
+				repository: id,
+				ref: revision,
+				refType: revision === "" ? "branch" : "tree",
+				path: path,
+				displayUrl: [baseUrl, owner, id, revision]
+					.filter((part) => part !== "")
+					.join("/"),
+			};
+		},
+		fetchContent: async (file, headers) => {
+			const gistFile = getGistFile(await getGist(file, headers), file);
+			if (typeof gistFile === "undefined")
+				throw Error(`Gist '${file.repository}' has no files`);
+			return gistFile.content;
+		},
+		fetchMetadata: async (file, headers) => {
+			const gist = await getGist(file, headers);
+			const path = getGistFile(gist, file)?.filename ?? file.path;
+			return getMetadata(
+				"github",
+				{ ...file, path: path },
+				gist.updated_at
+			);
+		},
+	};
+}
+
+export function createGitLabProvider(
+	baseUrl: string = GITLAB_URL
+): ReferenceProvider {
+	const getProjectUrl = (file: RepositoryFile) =>
+		`${baseUrl}/api/v4/projects/${encodeURIComponent(
+			`${file.owner}/${file.repository}`
+		)}/repository`;
+	return {
+		site: "gitlab",
+		match: (url) => {
+			const segments = getPathSegments(url, baseUrl);
+			const separatorIndex = segments?.indexOf("-") ?? -1;
+			if (
+				segments === null ||
+				separatorIndex < 2 ||
+				!["blob", "raw"].includes(segments[separatorIndex + 1]) ||
+				segments.length < separatorIndex + 4
+			)
+				return null;
+			const owner = segments.slice(0, separatorIndex - 1).join("/"); // Namespaces can contain subgroups
+			const repository = segments[separatorIndex - 1];
+			const ref = segments[separatorIndex + 2];
+			const path = segments.slice(separatorIndex + 3).join("/");
+			return {
+				owner: owner,
+				repository: repository,
+				ref: ref,
+				refType: getRefType(ref),
+				path: path,
+				displayUrl: `${baseUrl}/${owner}/${repository}/-/blob/${ref}/${encodePath(path)}`,
+			};
+		},
+		fetchContent: async (file, headers) =>
+			await requestText(
+				`${getProjectUrl(file)}/files/${encodeURIComponent(
+					file.path
+				)}/raw?${getQuery({ ref: file.ref })}`,
+				headers
+			),
+		fetchMetadata: async (file, headers) => {
+			const commits = await requestJson<GitLabCommit[]>(
+				`${getProjectUrl(file)}/commits?${getQuery({
+					ref_name: file.ref,
+					path: file.path,
+					per_page: "1",
+				})}`,
+				headers
+			);
+			return getMetadata("gitlab", file, commits?.[0]?.authored_date);
+		},
+	};
+}
+
+export function createGiteaProvider(
+	baseUrl: string = CODEBERG_URL
+): ReferenceProvider {
+	const getRepositoryUrl = (file: RepositoryFile) =>
+		`${baseUrl}/api/v1/repos/${file.owner}/${file.repository}`;
+	return {
+		site: "gitea",
+		match: (url) => {
+			const segments = getPathSegments(url, baseUrl);
+			if (
+				segments === null ||
+				!["src", "raw"].includes(segments[2]) ||
+				segments.length < 5
+			)
+				return null;
+			const [owner, repository, , ...refPath] = segments;
+			let kind = "branch";
+			if (["branch", "tag", "commit"].includes(refPath[0]))
+				kind = refPath.shift() as string;
+			const [ref, ...pathSegments] = refPath;
+			const path = pathSegments.join("/");
+			if (path === "") return null;
+			return {
+				owner: owner,
+				repository: repository,
+				ref: ref,
+				refType: kind === "commit" ? "tree" : "branch",
+				path: path,
+				displayUrl: `${baseUrl}/${owner}/${repository}/src/${kind}/${ref}/${encodePath(path)}`,
+			};
+		},
+		fetchContent: async (file, headers) =>
+			await requestText(
+				`${getRepositoryUrl(file)}/raw/${encodePath(
+					file.path
+				)}?${getQuery({ ref: file.ref })}`,
+				headers
+			),
+		fetchMetadata: async (file, headers) => {
+			const commits = await requestJson<GitHubCommit[]>(
+				`${getRepositoryUrl(file)}/commits?${getQuery({
+					sha: file.ref,
+					path: file.path,
+					limit: "1",
+					stat: "false",
+				})}`,
+				headers
+			);
+			return getMetadata(
+				"gitea",
+				file,
+				commits?.[0]?.commit?.author?.date
+			);
+		},
+	};
+}
+
+export function createBitbucketProvider(
+	baseUrl: string = BITBUCKET_URL,
+	apiUrl: string = BITBUCKET_API_URL
+): ReferenceProvider {
+	const getRepositoryUrl = (file: RepositoryFile) =>
+		`${apiUrl}/repositories/${file.owner}/${file.repository}`;
+	return {
+		site: "bitbucket",
+		match: (url) => {
+			const segments = getPathSegments(url, baseUrl);
+			if (
+				segments === null ||
+				!["src", "raw"].includes(segments[2]) ||
+				segments.length < 5
+			)
+				return null;
+			const [owner, repository, , ref, ...pathSegments] = segments;
+			const path = pathSegments.join("/");
+			return {
+				owner: owner,
+				repository: repository,
+				ref: ref,
+				refType: getRefType(ref),
+				path: path,
+				displayUrl: `${baseUrl}/${owner}/${repository}/src/${ref}/${encodePath(path)}`,
+			};
+		},
+		fetchContent: async (file, headers) =>
+			await requestText(
+				`${getRepositoryUrl(file)}/src/${encodeURIComponent(
+					file.ref
+				)}/${encodePath(file.path)}`,
+				headers
+			),
+		fetchMetadata: async (file, headers) => {
+			const commits = await requestJson<BitbucketCommits>(
+				`${getRepositoryUrl(file)}/commits/${encodeURIComponent(
+					file.ref
+				)}?${getQuery({ path: file.path, pagelen: "1" })}`,
+				headers
+			);
+			return getMetadata("bitbucket", file, commits?.values?.[0]?.date);
+		},
+	};
+}
+
+export function createSourceHutProvider(
+	baseUrl: string = SOURCEHUT_URL
+): ReferenceProvider {
+	return {
+		site: "sourcehut",
+		match: (url) => {
+			const segments = getPathSegments(url, baseUrl);
+			if (segments === null || !segments[0]?.startsWith("~")) return null;
+			const [owner, repository, kind, ref, ...pathSegments] = segments;
+			if (kind === "tree" && pathSegments[0] === "item")
+				pathSegments.shift();
+			else if (kind !== "blob") return null;
+			const path = pathSegments.join("/");
+			if (path === "") return null;
+			return {
+				owner: owner,
+				repository: repository,
+				ref: ref,
+				refType: getRefType(ref),
+				path: path,
+				displayUrl: `${baseUrl}/${owner}/${repository}/tree/${ref}/item/${encodePath(path)}`,
+			};
+		},
+		fetchContent: async (file, headers) =>
+			await requestText(
+				[
+					baseUrl,
+					file.owner,
+					file.repository,
+					"blob",
+					encodeURIComponent(file.ref),
+					encodePath(file.path),
+				].join("/"),
+				headers
+			),
+		fetchMetadata: async (file) => getMetadata("sourcehut", file), // Commit dates need the GraphQL API
+	};
+}
+
+function getMetadata(
+	site: string,
+	file: RepositoryFile,
+	date?: string
+): Partial<ExtRefMetadata> {
+	return {
+		site: site,
+		title: basename(file.path) || file.repository,
+		datetime: timeStamp(new Date(date ?? Date.now())),
+		displayUrl: file.displayUrl,
+		author: file.owner,
+		repository: file.repository,
+		path: file.path,
+		refInfo: {
+			ref: file.ref,
+			type: file.refType,
+		},
+	};
+}
+
+function getPathSegments(url: URL, baseUrl: string): string[] | null {
+	const base = new URL(baseUrl);
+	const basePath = base.pathname.replace(/\/$/, "");
+	if (url.origin !== base.origin || !url.pathname.startsWith(basePath + "/"))
+		return null;
+	return url.pathname
+		.slice(basePath.length + 1)
+		.split("/")
+		.map((segment) => decodeURIComponent(segment));
+}
+
+function splitRef(segments: string[]): { ref: string; path: string } {
+	if (segments[0] === "refs" && ["heads", "tags"].includes(segments[1]))
+		segments = segments.slice(2);
+	return { ref: segments[0], path: segments.slice(1).join("/") };
+}
+
+function getRefType(ref: string): RepositoryFile["refType"] {
+	if (/^[0-9a-f]{7,40}$/.test(ref)) return "tree"; // Commit hashes
+	return "branch";
+}
+
+function getHosts(hosts: string): string[] {
+	return hosts
+		.split(",")
+		.map((host) => host.trim().replace(/\/+$/, ""))
+		.filter((host) => /^https?:\/\//.test(host));
+}
+
+function getQuery(query: Record<string, string>): string {
+	return new URLSearchParams(query).toString();
+}
+
+function encodePath(path: string): string {
+	return path
+		.split("/")
+		.map((segment) => encodeURIComponent(segment))
+		.join("/");
+}
+
+async function requestText(
+	url: string,
+	headers: Record<string, string>
+): Promise<string> {
+	return (await requestUrl({ url: url, method: "GET", headers: headers }))
+		.text;
+}
+
+async function requestJson<T>(
+	url: string,
+	headers: Record<string, string>
+): Promise<T> {
+	return (await requestUrl({ url: url, method: "GET", headers: headers }))
+		.json as T;
+}
@@ -1,4 +1,5 @@
 import {
+	HeadingCache,
 	MarkdownPostProcessorContext,
 	MarkdownRenderer,
 	SectionCache,
@@ -7,15 +8,20 @@ import {
 	ExtRef,
 	ExtRefParams,
 	Ref,
+	RefParams,
 	getLineLimits,
-	_fetchExtRef,
 	parseRefParams,
 	ExtRefMetadata,
 } from "src/Parsing/ReferenceParsing";
 import { REF_CODEBLOCK } from "src/Settings";
+import { _fetchExtRef, getReferenceProviders } from "src/ReferenceProviders";
 import CodeStylerPlugin from "src/main";
 import { renderSpecificReadingSection } from "./ReadingView";
-import { getFileContentLines } from "./Parsing/CodeblockParsing";
+import {
+	getFileContentLines,
+	parseCodeblockParameters,
+	testOpeningLine,
+} from "./Parsing/CodeblockParsing";
 
 type Cache = Record<string, IdCache>;
 
@@ -26,6 +32,12 @@ interface IdCache {
 
 type ReferenceByFile = Record<string, string[]>;
 
+interface NoteCodeblock {
+	code: string;
+	openingLine: string;
+	language: string;
+}
+
 export async function refCodeblockProcessor(
 	source: string,
 	el: HTMLElement,
@@ -69,20 +81,37 @@ export async function getRef(
 		if (params.external) {
 			extRef = await fetchExtRef(params.external, sourcePath, plugin);
 		}
+		if (typeof extRef !== "undefined" && params.lineAnchor !== null)
+			extRef = {
+				...extRef,
+				metadata: {
+					...extRef.metadata,
+					displayUrl:
+						(extRef.metadata.displayUrl ?? extRef.params.rawUrl) +
+						params.lineAnchor.hash,
+				},
+				lineAnchor: params.lineAnchor,
+			}; // Link to the referenced lines
 
 		if (!await plugin.app.vault.adapter.exists(params.storePath)) {
 			throw Error(`Local file '${params.storePath}' not exist`);
 		}
 
-		const content = (
-			await plugin.app.vault.adapter.read(params.storePath)
-		).trim();
-		const sectionInfo = getLineLimits(content, params);
+		const content = await plugin.app.vault.adapter.read(params.storePath);
+		const noteCodeblock = getNoteCodeblock(content, params, plugin);
+		if (noteCodeblock !== null && params.language === "")
+			params.language = noteCodeblock.language;
+		const sectionInfo = getLineLimits(
+			noteCodeblock?.code ?? content.trim(),
+			params
+		);
 		return {
 			path: params.path,
 			language: params.language,
 			external: extRef,
 			startLine: sectionInfo.startLine,
+			hidden: sectionInfo.hidden,
+			openingLine: noteCodeblock?.openingLine,
 			code: [
 				"```",
 				params.language,
@@ -107,6 +136,101 @@ export async function getRef(
 	}
 }
 
+function getNoteCodeblock(
+	content: string,
+	params: RefParams,
+	plugin: CodeStylerPlugin
+): NoteCodeblock | null {
+	if (params.block === null && params.heading === null) return null;
+	if (!params.storePath.endsWith(".md"))
+		throw Error(
+			`Codeblocks can only be referenced from Markdown notes, not '${params.storePath}'`
+		);
+	const fileCache = plugin.app.metadataCache.getCache(params.storePath);
+	if (fileCache === null)
+		throw Error(`Could not read the sections of '${params.storePath}'`);
+
+	const lines = content.split("\n");
+	let codeSections = (fileCache.sections ?? []).filter(
+		(section: SectionCache) =>
+			section.type === "code" &&
+			testOpeningLine(lines[section.position.start.line] ?? "") !== ""
+	); // Exclude indented codeblocks
+	if (params.heading !== null)
+		codeSections = getHeadingCodeSections(
+			codeSections,
+			fileCache.headings ?? [],
+			params.heading
+		);
+	const block = params.block ?? 1;
+	const codeSection = getBlockCodeSection(codeSections, block, lines, plugin);
+	if (typeof codeSection === "undefined")
+		throw Error(
+			`Codeblock '${block}' could not be found in '${params.storePath}'`
+		);
+
+	const startIndex = codeSection.position.start.line;
+	const openingLine = lines[startIndex].trim();
+	const fence = testOpeningLine(openingLine);
+	let endIndex = codeSection.position.end.line;
+	if (
+		endIndex > startIndex &&
+		new RegExp(`^\\s*${fence}${fence[0]}*\\s*$`).test(lines[endIndex])
+	)
+		endIndex -= 1; // Exclude the closing fence of closed codeblocks
+	return {
+		code: lines.slice(startIndex + 1, endIndex + 1).join("\n"),
+		openingLine: openingLine,
+		language: parseCodeblockParameters(
+			openingLine,
+			plugin.settings.currentTheme
+		).language,
+	};
+}
+
+function getHeadingCodeSections(
+	codeSections: SectionCache[],
+	headings: HeadingCache[],
+	heading: string
+): SectionCache[] {
+	const headingIndex = headings.findIndex(
+		(headingCache: HeadingCache) =>
+			headingCache.heading.trim().toLowerCase() === heading.toLowerCase()
+	);
+	if (headingIndex === -1)
+		throw Error(`Heading '${heading}' could not be found`);
+	const startLine = headings[headingIndex].position.start.line;
+	const endLine =
+		headings
+			.slice(headingIndex + 1)
+			.find(
+				(headingCache: HeadingCache) =>
+					headingCache.level <= headings[headingIndex].level
+			)?.position.start.line ?? Infinity; // Include subheadings
+	return codeSections.filter(
+		(section: SectionCache) =>
+			section.position.start.line > startLine &&
+			section.position.start.line < endLine
+	);
+}
+
+function getBlockCodeSection(
+	codeSections: SectionCache[],
+	block: string | number,
+	lines: string[],
+	plugin: CodeStylerPlugin
+): SectionCache | undefined {
+	if (typeof block === "number") return codeSections[block - 1];
+	return codeSections.find(
+		(section: SectionCache) =>
+			section.id === block ||
+			parseCodeblockParameters(
+				lines[section.position.start.line].trim(),
+				plugin.settings.currentTheme
+			).id === block
+	); // Match block ids and id parameters
+}
+
 export async function updateExternalReferencedFiles(
 	plugin: CodeStylerPlugin,
 	sourcePath: string | undefined = undefined
@@ -224,7 +348,10 @@ export async function updateExtRef(
 	params: ExtRefParams,
 	plugin: CodeStylerPlugin
 ): Promise<ExtRef> {
-	const ref = await _fetchExtRef(params);
+	const ref = await _fetchExtRef(
+		params,
+		getReferenceProviders(plugin.settings)
+	);
 	await plugin.update(params.storePath, ref.content, false);
 	await plugin.update(plugin.refMetadataPath(params.id), ref.metadata);
 	return ref;
@@ -19,6 +19,8 @@ import {
 	CSS,
 	HEX,
 	Display,
+	CaptionPosition,
+	InlineCopy,
 	CodeStylerSettings,
 	CodeStylerThemeColours,
 	FOLD_PLACEHOLDER,
@@ -34,6 +36,7 @@ import {
 	WHITELIST_CODEBLOCKS,
 	INBUILT_THEMES,
 	CodeStylerTheme,
+	isCodeStylerRule,
 } from "./Settings";
 
 const SETTINGS_PAGES: Record<string, string> = {
@@ -55,6 +58,15 @@ const DISPLAY_OPTIONS: Record<Display, string> = {
 	if_header_shown: "If Header Shown",
 	always: "Always",
 };
+const CAPTION_POSITIONS: Record<CaptionPosition, string> = {
+	above: "Above Codeblock",
+	below: "Below Codeblock",
+};
+const INLINE_COPY_OPTIONS: Record<InlineCopy, string> = {
+	none: "Never",
+	click: "On Click",
+	button: "Hover Button",
+};
 
 export class SettingsTab extends PluginSettingTab {
 	plugin: CodeStylerPlugin;
@@ -215,6 +227,33 @@ export class SettingsTab extends PluginSettingTab {
 						this.saveSettings();
 					})
 			);
+		new Setting(containerEl)
+			.setName("Listing Caption Position")
+			.setDesc(
+				"Where to show numbered captions added with the caption parameter."
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions(CAPTION_POSITIONS)
+					.setValue(this.plugin.settings.captionPosition)
+					.onChange((value: CaptionPosition) => {
+						this.plugin.settings.captionPosition = value;
+						this.saveSettings(true);
+					})
+			);
+		new Setting(containerEl)
+			.setName("Report Unknown Parameters")
+			.setDesc(
+				"If enabled, unrecognised parameters on the opening line of codeblocks are reported in live preview. Codeblocks of whitelisted processed languages are never reported."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.reportUnknownParameters)
+					.onChange((value) => {
+						this.plugin.settings.reportUnknownParameters = value;
+						this.saveSettings();
+					})
+			);
 	}
 	generateThemeSettings(containerEl: HTMLElement) {
 		containerEl.createEl("h2", { text: "Theme Settings" });
@@ -1502,6 +1541,58 @@ export class SettingsTab extends PluginSettingTab {
 						//TODO (@mayurankv) Re-render (Test)
 					})
 			);
+		let rulesTimeout: NodeJS.Timeout = setTimeout(() => {});
+		new Setting(containerEl)
+			.setName("Codeblock Rules")
+			.setDesc(
+				"Use this textbox to define rules as a JSON list. Each rule can match notes using a path glob (path), a tag (tag) and codeblocks using a language regular expression (language), and then apply default codeblock parameters (parameters), a theme's colours (theme) or ignore the matching notes or codeblocks (ignore). Later rules take precedence over earlier rules, and note frontmatter and codeblock parameters take precedence over rules."
+			)
+			.setClass("code-styler-setting-text-area")
+			.addTextArea((textArea) =>
+				textArea
+					.setValue(
+						this.plugin.settings.rules.length === 0
+							? ""
+							: JSON.stringify(this.plugin.settings.rules, null, 4)
+					)
+					.setPlaceholder(
+						JSON.stringify(
+							[
+								{
+									path: "Snippets/",
+									parameters: { ln: true, unwrap: true },
+								},
+								{ tag: "#draft", ignore: true },
+							],
+							null,
+							4
+						)
+					)
+					.onChange((value) => {
+						let rules: unknown;
+						try {
+							rules = value === "" ? [] : JSON.parse(value);
+						} catch {
+							new Notice("Invalid JSON"); //NOSONAR
+							return;
+						}
+						if (!Array.isArray(rules)) {
+							new Notice("Rules must be a JSON array"); //NOSONAR
+							return;
+						}
+						const invalidRule = rules.findIndex(
+							(rule) => !isCodeStylerRule(rule)
+						);
+						if (invalidRule !== -1) {
+							new Notice(`Invalid rule ${invalidRule + 1}`); //NOSONAR
+							return;
+						}
+						this.plugin.settings.rules = rules;
+						this.saveSettings();
+						clearTimeout(rulesTimeout);
+						rulesTimeout = setTimeout(() => this.rerender(), 1000);
+					})
+			);
 	}
 	generateInlineCodeSettings(containerEl: HTMLElement) {
 		containerEl.createEl("h3", { text: "Inline Code Appearance" });
@@ -1537,6 +1628,23 @@ export class SettingsTab extends PluginSettingTab {
 						this.saveSettings();
 					})
 			);
+		new Setting(containerEl)
+			.setName("Copy Inline Code")
+			.setDesc(
+				"Copy inline code when it is clicked or using a button shown on hover. Set per inline code with the `copy` and `nocopy` parameters."
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions(INLINE_COPY_OPTIONS)
+					.setValue(
+						this.plugin.settings.currentTheme.settings.inline.copy
+					)
+					.onChange((value: InlineCopy) => {
+						this.plugin.settings.currentTheme.settings.inline.copy =
+							value;
+						this.saveSettings(true);
+					})
+			);
 		this.inlineCodeStylesContainer = containerEl.createDiv();
 		this.generateInlineCodeStyleSettings();
 		new Setting(this.inlineCodeStylesContainer)
@@ -1597,6 +1705,73 @@ export class SettingsTab extends PluginSettingTab {
 						});
 				});
 			});
+		containerEl.createEl("h5", { text: "Inline Code Key Appearance" });
+		new Setting(containerEl)
+			.setName("Inline Code Key Background Colour")
+			.setDesc("The background colour of keys shown with `{kbd}`.")
+			.then((setting) => {
+				this.createPickr(
+					this.plugin,
+					containerEl,
+					setting,
+					"key_background",
+					(relevantThemeColours: CodeStylerThemeColours) =>
+						relevantThemeColours[getCurrentMode()].inline
+							.keyBackgroundColour,
+					(
+						relevantThemeColours: CodeStylerThemeColours,
+						saveColour: Colour
+					) => {
+						relevantThemeColours[
+							getCurrentMode()
+						].inline.keyBackgroundColour = saveColour;
+					}
+				);
+			});
+		new Setting(containerEl)
+			.setName("Inline Code Key Text Colour")
+			.setDesc("The text colour of keys shown with `{kbd}`.")
+			.then((setting) => {
+				this.createPickr(
+					this.plugin,
+					containerEl,
+					setting,
+					"key_text",
+					(relevantThemeColours: CodeStylerThemeColours) =>
+						relevantThemeColours[getCurrentMode()].inline
+							.keyTextColour,
+					(
+						relevantThemeColours: CodeStylerThemeColours,
+						saveColour: Colour
+					) => {
+						relevantThemeColours[
+							getCurrentMode()
+						].inline.keyTextColour = saveColour;
+					}
+				);
+			});
+		new Setting(containerEl)
+			.setName("Inline Code Key Border Colour")
+			.setDesc("The border colour of keys shown with `{kbd}`.")
+			.then((setting) => {
+				this.createPickr(
+					this.plugin,
+					containerEl,
+					setting,
+					"key_border",
+					(relevantThemeColours: CodeStylerThemeColours) =>
+						relevantThemeColours[getCurrentMode()].inline
+							.keyBorderColour,
+					(
+						relevantThemeColours: CodeStylerThemeColours,
+						saveColour: Colour
+					) => {
+						relevantThemeColours[
+							getCurrentMode()
+						].inline.keyBorderColour = saveColour;
+					}
+				);
+			});
 	}
 	generateInlineCodeStyleSettings() {
 		this.inlineCodeStylesContainer.empty();
@@ -1935,6 +2110,36 @@ export class SettingsTab extends PluginSettingTab {
 						this.saveSettings();
 					})
 			);
+		new Setting(this.advancedSettingsContainer)
+			.setName("Self-hosted GitLab Instances")
+			.setDesc(
+				"Define base URLs of self-hosted GitLab instances in a comma separated list so external references to them show repository information."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("e.g. https://gitlab.example.com")
+					.setValue(this.plugin.settings.externalReferenceGitLabHosts)
+					.onChange((value) => {
+						this.plugin.settings.externalReferenceGitLabHosts =
+							value;
+						this.saveSettings();
+					})
+			);
+		new Setting(this.advancedSettingsContainer)
+			.setName("Self-hosted Gitea and Forgejo Instances")
+			.setDesc(
+				"Define base URLs of self-hosted Gitea or Forgejo instances in a comma separated list so external references to them show repository information."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("e.g. https://gitea.example.com")
+					.setValue(this.plugin.settings.externalReferenceGiteaHosts)
+					.onChange((value) => {
+						this.plugin.settings.externalReferenceGiteaHosts =
+							value;
+						this.saveSettings();
+					})
+			);
 		this.disableableComponents["editorActiveLineHighlight"].push(
 			this.pickrs["editor_active_line_highlight"].resetButton
 		);
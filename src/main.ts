@@ -1,4 +1,5 @@
 import { Plugin, MarkdownView, WorkspaceLeaf, normalizePath } from "obsidian";
+import { around } from "monkey-around";
 
 import {
 	convertSettings,
@@ -29,6 +30,10 @@ import {
 	updateExternalReferencedFiles,
 } from "./Referencing";
 import { addModes, removeModes } from "./SyntaxHighlighting";
+import { toggleCalloutHighlight } from "./CodeblockDecorating";
+import { followCodeblockLink } from "./Linking";
+import { ParameterSuggest } from "./ParameterSuggest";
+import { clearDocumentCodeblocks } from "./Parsing/CodeblockParsing";
 
 export default class CodeStylerPlugin extends Plugin {
 	settings: CodeStylerSettings;
@@ -88,6 +93,23 @@ export default class CodeStylerPlugin extends Plugin {
 		this.registerEditorExtension(
 			createCodeblockCodeMirrorExtensions(this.settings, this)
 		); // Add codemirror extensions
+		this.registerEditorSuggest(new ParameterSuggest(this.app, this)); // Add fence parameter suggestions
+
+		this.registerDomEvent(document, "mouseover", toggleCalloutHighlight);
+		this.registerDomEvent(document, "mouseout", toggleCalloutHighlight); // Link callouts to their list items
+
+		const followLink = (view: MarkdownView, subpath: string) =>
+			followCodeblockLink(view, subpath, this);
+		this.register(
+			around(MarkdownView.prototype, {
+				setEphemeralState: (setEphemeralState) =>
+					function (this: MarkdownView, state: unknown) {
+						setEphemeralState.call(this, state);
+						const subpath = (state as { subpath?: unknown })?.subpath;
+						if (typeof subpath === "string") followLink(this, subpath);
+					},
+			})
+		); // Follow links to codeblock ids
 
 		let zoomTimeout: NodeJS.Timeout = setTimeout(() => {});
 		this.registerEvent(
@@ -229,6 +251,7 @@ export default class CodeStylerPlugin extends Plugin {
 
 	async saveSettings() {
 		await this.saveData(this.settings);
+		clearDocumentCodeblocks(); // Parsed codeblocks depend on the settings
 		this.app.workspace.updateOptions();
 		updateStyling(this.settings, this.app);
 	}
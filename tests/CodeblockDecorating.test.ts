@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("obsidian", () => ({}));
+vi.mock("src/EditingView", () => ({}));
+vi.mock("src/Referencing", () => ({}));
+
+import { getLineClass, getTextHighlights } from "src/CodeblockDecorating";
+import { parseCodeblockParameters } from "src/Parsing/CodeblockParsing";
+import { CodeStylerTheme, DEFAULT_SETTINGS } from "src/Settings";
+
+const THEME: CodeStylerTheme = structuredClone(DEFAULT_SETTINGS.currentTheme);
+THEME.colours.light.highlights.alternativeHighlights = { info: "#0000ff" };
+
+describe("getTextHighlights", () => {
+	it("highlights quoted text and regular expressions", () => {
+		const params = parseCodeblockParameters(
+			'```python hl:"foo",/ba[rz]/',
+			THEME
+		);
+		expect(getTextHighlights(params, 1, "foo = bar + baz + foo")).toEqual([
+			{ from: 0, to: 3, className: "code-styler-text-highlighted" },
+			{ from: 6, to: 9, className: "code-styler-text-highlighted" },
+			{ from: 12, to: 15, className: "code-styler-text-highlighted" },
+			{ from: 18, to: 21, className: "code-styler-text-highlighted" },
+		]);
+		expect(getLineClass(params, 1, "foo = bar")).toEqual([
+			"code-styler-line",
+		]);
+	});
+
+	it("highlights column ranges on their line only", () => {
+		const params = parseCodeblockParameters(
+			"```python hl:2[3-5] info:3[7]",
+			THEME
+		);
+		expect(getTextHighlights(params, 1, "abcdefgh")).toEqual([]);
+		expect(getTextHighlights(params, 2, "abcdefgh")).toEqual([
+			{ from: 2, to: 5, className: "code-styler-text-highlighted" },
+		]);
+		expect(getTextHighlights(params, 3, "abcdefgh")).toEqual([
+			{ from: 6, to: 7, className: "code-styler-text-highlighted-info" },
+		]);
+	});
+
+	it("clamps column ranges to the line and follows the line offset", () => {
+		const params = parseCodeblockParameters(
+			"```python ln:10 hl:11[4-20]",
+			THEME
+		);
+		expect(params.lineNumbers.offset).toBe(9);
+		expect(getTextHighlights(params, 2, "abcdef")).toEqual([
+			{ from: 3, to: 6, className: "code-styler-text-highlighted" },
+		]);
+		expect(getTextHighlights(params, 2, "ab")).toEqual([]);
+	});
+});
@@ -0,0 +1,241 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("obsidian", () => ({
+	MarkdownPreviewRenderer: { codeBlockPostProcessors: {} },
+}));
+vi.mock("src/Referencing", () => ({}));
+
+import {
+	clearDocumentCodeblocks,
+	continueLineNumbers,
+	getHiddenRange,
+	parseCodeblockParameters,
+	parseDocumentCodeblocks,
+} from "src/Parsing/CodeblockParsing";
+import { CodeStylerTheme, DEFAULT_SETTINGS } from "src/Settings";
+import CodeStylerPlugin from "src/main";
+
+const THEME: CodeStylerTheme = structuredClone(DEFAULT_SETTINGS.currentTheme);
+THEME.colours.light.highlights.alternativeHighlights = { info: "#0000ff" };
+const PLUGIN = {
+	settings: { ...structuredClone(DEFAULT_SETTINGS), currentTheme: THEME },
+	app: { metadataCache: { getCache: () => null } },
+} as unknown as CodeStylerPlugin;
+
+describe("parseCodeblockParameters warnings", () => {
+	it("reports invalid values at their position", () => {
+		expect(
+			parseCodeblockParameters("```python hl:2-1 unwrap:maybe", THEME)
+				.warnings
+		).toEqual([
+			{
+				from: 13,
+				to: 16,
+				message: 'Invalid line range "2-1"',
+				unknown: false,
+			},
+			{
+				from: 24,
+				to: 29,
+				message:
+					'Invalid unwrap setting "maybe": expected true, false or inactive',
+				unknown: false,
+			},
+		]);
+	});
+
+	it("marks unknown parameters and suggests highlights", () => {
+		expect(
+			parseCodeblockParameters("```python foo inf:3", THEME).warnings
+		).toEqual([
+			{
+				from: 10,
+				to: 13,
+				message: 'Unknown parameter "foo"',
+				unknown: true,
+			},
+			{
+				from: 14,
+				to: 17,
+				message: 'Unknown highlight "inf": did you mean "info"?',
+				unknown: true,
+			},
+		]);
+	});
+
+	it("reports unmatched quotation marks", () => {
+		expect(
+			parseCodeblockParameters('```python title:"Example', THEME)
+				.warnings
+		).toContainEqual({
+			from: 16,
+			to: 17,
+			message: "Unmatched quotation mark",
+			unknown: false,
+		});
+	});
+
+	it("ignores braces used by other plugins", () => {
+		expect(
+			parseCodeblockParameters('```python {"args": 1}', THEME).warnings
+		).toEqual([]);
+	});
+
+	it("has no warnings for valid parameters", () => {
+		expect(
+			parseCodeblockParameters(
+				"```python title:Example hl:1,3-4 info:2 wrap",
+				THEME
+			).warnings
+		).toEqual([]);
+	});
+});
+
+describe("hide", () => {
+	it("merges overlapping and adjacent ranges", () => {
+		expect(
+			parseCodeblockParameters("```python hide:10,4-8,3-5,9", THEME).hide
+		).toEqual([{ start: 3, end: 10 }]);
+		expect(
+			parseCodeblockParameters("```python hide:2,5-6", THEME).hide
+		).toEqual([
+			{ start: 2, end: 2 },
+			{ start: 5, end: 6 },
+		]);
+	});
+
+	it("reports invalid ranges", () => {
+		const params = parseCodeblockParameters(
+			"```python hide:3-1,,x",
+			THEME
+		);
+		expect(params.hide).toEqual([]);
+		expect(params.warnings.map(({ message }) => message)).toEqual([
+			'Invalid hidden line range "3-1"',
+			'Invalid hidden line range ""',
+			'Invalid hidden line range "x"',
+		]);
+	});
+
+	it("finds hidden ranges using the line offset", () => {
+		const params = parseCodeblockParameters(
+			"```python ln:20 hide:22-23",
+			THEME
+		);
+		expect(getHiddenRange(params, 2)).toBeUndefined();
+		expect(getHiddenRange(params, 3)).toEqual({ start: 22, end: 23 });
+		expect(getHiddenRange(params, 4)).toEqual({ start: 22, end: 23 });
+		expect(getHiddenRange(params, 5)).toBeUndefined();
+	});
+});
+
+describe("Pandoc attributes", () => {
+	it("parses wrapped attribute lists", () => {
+		const params = parseCodeblockParameters(
+			'```{.python #lst:example startFrom=5 filename="main.py" .numberLines hl=2}',
+			THEME
+		);
+		expect(params.language).toBe("python");
+		expect(params.id).toBe("example");
+		expect(params.title).toBe("main.py");
+		expect(params.lineNumbers.offset).toBe(4);
+		expect(params.lineNumbers.alwaysEnabled).toBe(true);
+		expect(params.highlights.default.lineNumbers).toEqual([2]);
+		expect(params.warnings).toEqual([]);
+	});
+
+	it("parses trailing attribute lists", () => {
+		const params = parseCodeblockParameters(
+			"```python {#example .fold data-tool=1}",
+			THEME
+		);
+		expect(params.language).toBe("python");
+		expect(params.id).toBe("example");
+		expect(params.fold.enabled).toBe(true);
+		expect(params.warnings).toEqual([]);
+	});
+
+	it("reports warnings at the original attribute", () => {
+		const line = "```{.python startFrom=x hl=2-1}";
+		const warnings = parseCodeblockParameters(line, THEME).warnings;
+		expect(
+			warnings.map(({ from, to, message }) => [
+				line.slice(from, to),
+				message,
+			])
+		).toEqual([
+			[
+				"x",
+				'Invalid line numbering "x": expected true, false, continue, continue(id) or a starting line number',
+			],
+			["2-1", 'Invalid line range "2-1"'],
+		]);
+	});
+});
+
+describe("ln:continue", () => {
+	it("continues from the previous or an identified codeblock", () => {
+		const codeblocksParameters = parseDocumentCodeblocks(
+			[
+				"```python id:first",
+				"a",
+				"b",
+				"```",
+				"",
+				"```python ln:5",
+				"c",
+				"```",
+				"",
+				"```python ln:continue",
+				"d",
+				"```",
+				"",
+				"```python ln:continue(first)",
+				"e",
+				"```",
+			],
+			PLUGIN,
+			"Note.md"
+		);
+		expect(
+			Array.from(codeblocksParameters.values()).map(
+				(params) => params.lineNumbers.offset
+			)
+		).toEqual([0, 4, 5, 2]);
+	});
+
+	it("starts from zero for unknown ids", () => {
+		const params = parseCodeblockParameters(
+			"```python ln:continue(missing)",
+			THEME
+		);
+		const lineNumberEnds = { previous: 7, ids: {} };
+		continueLineNumbers(params, 3, lineNumberEnds);
+		expect(params.lineNumbers.offset).toBe(0);
+		expect(lineNumberEnds.previous).toBe(3);
+	});
+});
+
+describe("parseDocumentCodeblocks", () => {
+	it("reuses the parse of unchanged notes", () => {
+		const lines = ["```python", "a", "```"];
+		const codeblocksParameters = parseDocumentCodeblocks(
+			lines,
+			PLUGIN,
+			"Cached.md"
+		);
+		expect(parseDocumentCodeblocks([...lines], PLUGIN, "Cached.md")).toBe(
+			codeblocksParameters
+		);
+		const changedCodeblocksParameters = parseDocumentCodeblocks(
+			["", ...lines],
+			PLUGIN,
+			"Cached.md"
+		);
+		expect(changedCodeblocksParameters).not.toBe(codeblocksParameters);
+		clearDocumentCodeblocks();
+		expect(
+			parseDocumentCodeblocks(["", ...lines], PLUGIN, "Cached.md")
+		).not.toBe(changedCodeblocksParameters);
+	});
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+
+import { parseInlineCodeAttributes } from "src/Parsing/InlineCodeParsing";
+
+describe("parseInlineCodeAttributes", () => {
+	it("parses Pandoc attribute lists", () => {
+		expect(
+			parseInlineCodeAttributes('{.python title="Some code" icon} after')
+		).toEqual({
+			parameters: {
+				language: "python",
+				title: "Some code",
+				icon: true,
+				copy: null,
+			},
+			length: 32,
+		});
+	});
+
+	it("parses kramdown attribute lists", () => {
+		expect(parseInlineCodeAttributes("{:.language-Rust}")).toEqual({
+			parameters: {
+				language: "rust",
+				title: "",
+				icon: false,
+				copy: null,
+			},
+			length: 17,
+		});
+	});
+
+	it("uses the first class as the language", () => {
+		expect(
+			parseInlineCodeAttributes("{.js .highlight}")?.parameters.language
+		).toBe("js");
+	});
+
+	it("ignores text that is not an attribute list", () => {
+		expect(parseInlineCodeAttributes(" {.python}")).toBeNull();
+		expect(parseInlineCodeAttributes("{#id width=50%}")).toBeNull();
+		expect(parseInlineCodeAttributes("{.python")).toBeNull();
+	});
+});
@@ -0,0 +1,242 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("obsidian", () => ({
+	normalizePath: (path: string) => path,
+	parseYaml: (source: string) =>
+		Object.fromEntries(
+			source
+				.split("\n")
+				.filter((line) => line.includes(":"))
+				.map((line) => {
+					const separator = line.indexOf(":");
+					return [
+						line.slice(0, separator).trim(),
+						line
+							.slice(separator + 1)
+							.trim()
+							.replace(/^(["'])(.*)\1$/, "$2"),
+					];
+				})
+		),
+}));
+
+import { getLineLimits, parseRefParams } from "src/Parsing/ReferenceParsing";
+import CodeStylerPlugin from "src/main";
+
+const PLUGIN = {
+	refContentPath: (id: string) => `cache/${id}.json`,
+} as unknown as CodeStylerPlugin;
+
+function getReference(code: string[], source: string) {
+	return getLineLimits(
+		code.join("\n"),
+		parseRefParams(
+			`file: Code/script.py\n${source}\n`,
+			"Notes/Note.md",
+			PLUGIN
+		)
+	);
+}
+
+describe("lines", () => {
+	const code = Array.from({ length: 60 }, (_, index) =>
+		index === 44 ? "def main():" : `line ${index + 1}`
+	);
+
+	it("joins ranges and hides the lines between them", () => {
+		const reference = getReference(
+			code,
+			'lines: [1-5, 40-52, "/def main/"+10]'
+		);
+		expect(reference.startLine).toBe(1);
+		expect(reference.codeSection.split("\n")).toHaveLength(55);
+		expect(reference.hidden).toEqual([{ start: 6, end: 39 }]);
+	});
+
+	it("searches quoted text literally", () => {
+		const reference = getReference(
+			code,
+			"lines: ['line 3'-4, \"line 10\"]"
+		);
+		expect(reference.startLine).toBe(3);
+		expect(reference.codeSection.split("\n")).toEqual(
+			code.slice(2, 10)
+		);
+		expect(reference.hidden).toEqual([{ start: 5, end: 9 }]);
+	});
+});
+
+describe("region", () => {
+	const code = [
+		"import os",
+		"# region setup",
+		"x = 1",
+		"# region inner",
+		"y = 2",
+		"# endregion",
+		"z = 3",
+		"# endregion",
+		"# --8<-- [start:snippet]",
+		"print(x)",
+		"# --8<-- [end:snippet]",
+	];
+
+	it("keeps line numbers aligned around nested markers", () => {
+		const reference = getReference(code, "region: setup");
+		expect(reference.startLine).toBe(3);
+		expect(reference.codeSection.split("\n")).toEqual(code.slice(2, 7));
+		expect(reference.hidden).toEqual([
+			{ start: 4, end: 4 },
+			{ start: 6, end: 6 },
+		]);
+	});
+
+	it("matches snippet sections", () => {
+		const reference = getReference(code, "region: snippet");
+		expect(reference.startLine).toBe(10);
+		expect(reference.codeSection).toBe("print(x)");
+		expect(reference.hidden).toBeUndefined();
+	});
+
+	it("closes nested regions with unnamed end markers", () => {
+		const nestedCode = [
+			"// #region outer",
+			"a();",
+			"// #region",
+			"b();",
+			"// #endregion",
+			"// #endregion",
+		];
+		const reference = getReference(nestedCode, "region: outer");
+		expect(reference.startLine).toBe(2);
+		expect(reference.codeSection.split("\n")).toEqual(
+			nestedCode.slice(1, 5)
+		);
+		expect(reference.hidden).toEqual([
+			{ start: 3, end: 3 },
+			{ start: 5, end: 5 },
+		]);
+	});
+
+	it("matches pragma and editor-fold markers", () => {
+		const markerCode = [
+			"#pragma region Setup",
+			"int x = 1;",
+			"#pragma endregion",
+			'// <editor-fold desc="Helpers">',
+			"int y = 2;",
+			"// </editor-fold>",
+		];
+		expect(getReference(markerCode, "region: Setup").codeSection).toBe(
+			"int x = 1;"
+		);
+		expect(getReference(markerCode, "region: Helpers").codeSection).toBe(
+			"int y = 2;"
+		);
+	});
+
+	it("reports missing regions", () => {
+		expect(() => getReference(code, "region: missing")).toThrow(
+			"Region 'missing' could not be found"
+		);
+	});
+});
+
+describe("symbol", () => {
+	const code = [
+		"import os",
+		"",
+		"class Greeter:",
+		"    @staticmethod",
+		"    def greet(name):",
+		'        return f"Hello {name}"',
+		"",
+		"    def wave(self):",
+		"        pass",
+		"",
+		"def helper():",
+		'    return "def greet():"',
+		"",
+		"print(helper())",
+	];
+
+	it("finds nested symbols with their decorators", () => {
+		const reference = getReference(code, "symbol: Greeter.greet");
+		expect(reference.startLine).toBe(4);
+		expect(reference.codeSection.split("\n")).toEqual(code.slice(3, 6));
+	});
+
+	it("restricts symbols to a keyword", () => {
+		const reference = getReference(code, "symbol: def helper");
+		expect(reference.startLine).toBe(11);
+		expect(reference.codeSection.split("\n")).toEqual(code.slice(10, 12));
+		expect(() => getReference(code, "symbol: class helper")).toThrow(
+			"Symbol 'helper' could not be found"
+		);
+	});
+
+	it("matches braces outside strings and comments", () => {
+		const typescriptCode = [
+			'const text = "function fake() {";',
+			"// function alsoFake() {",
+			"export function real(a: number): number {",
+			"\tif (a > 0) {",
+			'\t\treturn "}".length;',
+			"\t}",
+			"\treturn 0;",
+			"}",
+			"real(1);",
+		];
+		const reference = getReference(
+			typescriptCode,
+			"language: ts\nsymbol: real"
+		);
+		expect(reference.startLine).toBe(3);
+		expect(reference.codeSection.split("\n")).toEqual(
+			typescriptCode.slice(2, 8)
+		);
+		expect(() =>
+			getReference(typescriptCode, "language: ts\nsymbol: fake")
+		).toThrow("Symbol 'fake' could not be found");
+	});
+});
+
+describe("line anchors", () => {
+	const getParams = (source: string) =>
+		parseRefParams(`${source}\n`, "Notes/Note.md", PLUGIN);
+	const url = "https://github.com/owner/repo/blob/main/src/app.py";
+
+	it("uses permalink line ranges", () => {
+		const params = getParams(`file: ${url}#L10-L25`);
+		expect(params.start).toBe(10);
+		expect(params.end).toBe(25);
+		expect(params.lineAnchor).toEqual({
+			hash: "#L10-L25",
+			start: 10,
+			end: 25,
+		});
+		expect(params.external?.rawUrl).toBe(url);
+	});
+
+	it("accepts single lines and column anchors", () => {
+		expect(getParams(`file: ${url}#L7`).lineAnchor).toEqual({
+			hash: "#L7",
+			start: 7,
+			end: 7,
+		});
+		const params = getParams(`file: ${url}#L3C2-L4C8`);
+		expect([params.start, params.end]).toEqual([3, 4]);
+	});
+
+	it("prefers explicit lines", () => {
+		const params = getParams(`file: ${url}#L10-L25\nstart: 2`);
+		expect(params.start).toBe(2);
+		expect(params.end).toBeNull();
+	});
+
+	it("ignores other anchors", () => {
+		const params = getParams(`file: ${url}#readme`);
+		expect(params.lineAnchor).toBeNull();
+		expect(params.start).toBeNull();
+	});
+});
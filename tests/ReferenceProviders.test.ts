@@ -0,0 +1,428 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+vi.mock("obsidian", () => {
+	const requestUrl = async ({
+		url,
+		headers,
+	}: {
+		url: string;
+		headers?: Record<string, string>;
+	}) => {
+		const response = await fetch(url, { headers: headers });
+		if (!response.ok)
+			throw Error(`Request failed, status ${response.status}`);
+		const text = await response.text();
+		return {
+			status: response.status,
+			text: text,
+			get json() {
+				return JSON.parse(text);
+			},
+		};
+	};
+	return {
+		requestUrl: vi.fn(requestUrl),
+		request: vi.fn(
+			async (request: {
+				url: string;
+				headers?: Record<string, string>;
+			}) => (await requestUrl(request)).text
+		),
+	};
+});
+
+import {
+	ReferenceProvider,
+	_fetchExtRef,
+	createBitbucketProvider,
+	createGistProvider,
+	createGitHubProvider,
+	createGitLabProvider,
+	createGiteaProvider,
+	createSourceHutProvider,
+	getReferenceProviders,
+} from "src/ReferenceProviders";
+import { DEFAULT_SETTINGS } from "src/Settings";
+
+const COMMIT_DATE = "2024-01-02T03:04:00Z";
+const GIST = {
+	files: {
+		"first.py": { filename: "first.py", content: "print(1)" },
+		"second.py": { filename: "second.py", content: "print(2)" },
+	},
+	updated_at: COMMIT_DATE,
+};
+
+let server: Server;
+let baseUrl: string;
+const requests: { url: string; headers: IncomingMessage["headers"] }[] = [];
+
+function respond(request: IncomingMessage, response: ServerResponse): void {
+	const url = request.url ?? "";
+	requests.push({ url: url, headers: request.headers });
+	const text = (data: string) => {
+		response.end(data);
+	};
+	const json = (data: unknown) => {
+		response.setHeader("Content-Type", "application/json");
+		response.end(JSON.stringify(data));
+	};
+	if (url.startsWith("/github-api/repos/owner/repo/contents/"))
+		return text("github content");
+	if (url.startsWith("/github-api/repos/owner/repo/commits"))
+		return json([{ commit: { author: { date: COMMIT_DATE } } }]);
+	if (url.startsWith("/github-api/gists/"))
+		return json(GIST);
+	if (/^\/[\w-]+\/api\/v4\/projects\/[^/]+\/repository\/files\//.test(url))
+		return text("gitlab content");
+	if (/^\/[\w-]+\/api\/v4\/projects\/[^/]+\/repository\/commits/.test(url))
+		return json([{ authored_date: COMMIT_DATE }]);
+	if (/^\/[\w-]+\/api\/v1\/repos\/owner\/repo\/raw\//.test(url))
+		return text("gitea content");
+	if (/^\/[\w-]+\/api\/v1\/repos\/owner\/repo\/commits/.test(url))
+		return json([{ commit: { author: { date: COMMIT_DATE } } }]);
+	if (url.startsWith("/bitbucket-api/repositories/workspace/repo/src/"))
+		return text("bitbucket content");
+	if (url.startsWith("/bitbucket-api/repositories/workspace/repo/commits/"))
+		return json({ values: [{ date: COMMIT_DATE }] });
+	if (url.startsWith("/sourcehut/~owner/repo/blob/"))
+		return text("sourcehut content");
+	if (url.startsWith("/generic/"))
+		return text("generic content");
+	response.statusCode = 404;
+	response.end();
+}
+
+beforeAll(async () => {
+	server = createServer(respond);
+	await new Promise<void>((resolve) =>
+		server.listen(0, "127.0.0.1", resolve)
+	);
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+	await new Promise((resolve) => server.close(resolve));
+});
+
+async function fetchReference(provider: ReferenceProvider, url: string) {
+	requests.length = 0;
+	const file = provider.match(new URL(url));
+	if (file === null) throw Error(`No match for ${url}`);
+	return {
+		file: file,
+		content: await provider.fetchContent(file, { Authorization: "token" }),
+		metadata: await provider.fetchMetadata(file, {}),
+		requests: requests.map((request) => request.url),
+	};
+}
+
+describe("createGitHubProvider", () => {
+	const getProvider = () =>
+		createGitHubProvider(
+			`${baseUrl}/github`,
+			`${baseUrl}/github-raw`,
+			`${baseUrl}/github-api`
+		);
+
+	it("matches blob links", () => {
+		expect(
+			getProvider().match(
+				new URL(`${baseUrl}/github/owner/repo/blob/main/src/a b.py`)
+			)
+		).toEqual({
+			owner: "owner",
+			repository: "repo",
+			ref: "main",
+			refType: "branch",
+			path: "src/a b.py",
+			displayUrl: `${baseUrl}/github/owner/repo/blob/main/src/a%20b.py`,
+		});
+	});
+
+	it("matches raw links with full refs", () => {
+		expect(
+			getProvider().match(
+				new URL(`${baseUrl}/github-raw/owner/repo/refs/heads/dev/a.py`)
+			)
+		).toMatchObject({ ref: "dev", path: "a.py" });
+	});
+
+	it("does not match links to folders", () => {
+		expect(
+			getProvider().match(
+				new URL(`${baseUrl}/github/owner/repo/tree/main`)
+			)
+		).toBeNull();
+	});
+
+	it("fetches content and metadata", async () => {
+		const reference = await fetchReference(
+			getProvider(),
+			`${baseUrl}/github/owner/repo/blob/0123abcd/src/a.py`
+		);
+		expect(reference.content).toBe("github content");
+		expect(reference.requests).toEqual([
+			"/github-api/repos/owner/repo/contents/src/a.py?ref=0123abcd",
+			"/github-api/repos/owner/repo/commits?sha=0123abcd&path=src%2Fa.py&per_page=1",
+		]);
+		expect(requests[0].headers.accept).toBe("application/vnd.github.raw");
+		expect(requests[0].headers.authorization).toBe("token");
+		expect(reference.metadata).toEqual({
+			site: "github",
+			title: "a.py",
+			datetime: expect.stringMatching(/^2024-01-0[12] \d\d:04$/),
+			displayUrl: `${baseUrl}/github/owner/repo/blob/0123abcd/src/a.py`,
+			author: "owner",
+			repository: "repo",
+			path: "src/a.py",
+			refInfo: { ref: "0123abcd", type: "tree" },
+		});
+	});
+});
+
+describe("createGistProvider", () => {
+	const getProvider = () =>
+		createGistProvider(
+			`${baseUrl}/gist`,
+			`${baseUrl}/gist-raw`,
+			`${baseUrl}/github-api`
+		);
+
+	it("uses the first file of gist links", async () => {
+		const reference = await fetchReference(
+			getProvider(),
+			`${baseUrl}/gist/owner/abc123`
+		);
+		expect(reference.content).toBe("print(1)");
+		expect(reference.requests).toEqual([
+			"/github-api/gists/abc123",
+			"/github-api/gists/abc123",
+		]);
+		expect(reference.metadata).toMatchObject({
+			title: "first.py",
+			author: "owner",
+			repository: "abc123",
+			displayUrl: `${baseUrl}/gist/owner/abc123`,
+		});
+	});
+
+	it("uses the revision and file of raw links", async () => {
+		const reference = await fetchReference(
+			getProvider(),
+			`${baseUrl}/gist-raw/owner/abc123/raw/deadbeef/second.py`
+		);
+		expect(reference.content).toBe("print(2)");
+		expect(reference.requests[0]).toBe("/github-api/gists/abc123/deadbeef");
+		expect(reference.metadata).toMatchObject({
+			title: "second.py",
+			refInfo: { ref: "deadbeef", type: "tree" },
+		});
+	});
+});
+
+describe("createGitLabProvider", () => {
+	it("matches gitlab.com links", () => {
+		expect(
+			createGitLabProvider().match(
+				new URL("https://gitlab.com/owner/repo/-/raw/main/x.rb")
+			)
+		).toEqual({
+			owner: "owner",
+			repository: "repo",
+			ref: "main",
+			refType: "branch",
+			path: "x.rb",
+			displayUrl: "https://gitlab.com/owner/repo/-/blob/main/x.rb",
+		});
+	});
+
+	it("fetches from self-hosted instances with subgroups", async () => {
+		const reference = await fetchReference(
+			createGitLabProvider(`${baseUrl}/gitlab`),
+			`${baseUrl}/gitlab/group/subgroup/repo/-/blob/main/lib/x.rb`
+		);
+		expect(reference.file).toMatchObject({
+			owner: "group/subgroup",
+			repository: "repo",
+			path: "lib/x.rb",
+		});
+		expect(reference.content).toBe("gitlab content");
+		expect(reference.requests).toEqual([
+			"/gitlab/api/v4/projects/group%2Fsubgroup%2Frepo/repository/files/lib%2Fx.rb/raw?ref=main",
+			"/gitlab/api/v4/projects/group%2Fsubgroup%2Frepo/repository/commits?ref_name=main&path=lib%2Fx.rb&per_page=1",
+		]);
+		expect(reference.metadata).toMatchObject({
+			site: "gitlab",
+			author: "group/subgroup",
+			displayUrl: `${baseUrl}/gitlab/group/subgroup/repo/-/blob/main/lib/x.rb`,
+		});
+	});
+
+	it("does not match other hosts", () => {
+		expect(
+			createGitLabProvider(`${baseUrl}/gitlab`).match(
+				new URL(`${baseUrl}/gitea/owner/repo/-/blob/main/x.rb`)
+			)
+		).toBeNull();
+	});
+});
+
+describe("createGiteaProvider", () => {
+	it("matches Codeberg links", () => {
+		expect(
+			createGiteaProvider().match(
+				new URL(
+					"https://codeberg.org/owner/repo/src/commit/0123abcd/x.go"
+				)
+			)
+		).toMatchObject({ ref: "0123abcd", refType: "tree", path: "x.go" });
+	});
+
+	it("fetches from self-hosted instances", async () => {
+		const reference = await fetchReference(
+			createGiteaProvider(`${baseUrl}/gitea`),
+			`${baseUrl}/gitea/owner/repo/src/branch/main/cmd/x.go`
+		);
+		expect(reference.content).toBe("gitea content");
+		expect(reference.requests).toEqual([
+			"/gitea/api/v1/repos/owner/repo/raw/cmd/x.go?ref=main",
+			"/gitea/api/v1/repos/owner/repo/commits?sha=main&path=cmd%2Fx.go&limit=1&stat=false",
+		]);
+		expect(reference.metadata).toMatchObject({
+			site: "gitea",
+			title: "x.go",
+			displayUrl: `${baseUrl}/gitea/owner/repo/src/branch/main/cmd/x.go`,
+			refInfo: { ref: "main", type: "branch" },
+		});
+	});
+});
+
+describe("createBitbucketProvider", () => {
+	it("fetches content and metadata", async () => {
+		const reference = await fetchReference(
+			createBitbucketProvider(
+				`${baseUrl}/bitbucket`,
+				`${baseUrl}/bitbucket-api`
+			),
+			`${baseUrl}/bitbucket/workspace/repo/src/main/x.c`
+		);
+		expect(reference.content).toBe("bitbucket content");
+		expect(reference.requests).toEqual([
+			"/bitbucket-api/repositories/workspace/repo/src/main/x.c",
+			"/bitbucket-api/repositories/workspace/repo/commits/main?path=x.c&pagelen=1",
+		]);
+		expect(reference.metadata).toMatchObject({
+			site: "bitbucket",
+			author: "workspace",
+			displayUrl: `${baseUrl}/bitbucket/workspace/repo/src/main/x.c`,
+		});
+	});
+});
+
+describe("createSourceHutProvider", () => {
+	it("fetches content of tree links", async () => {
+		const reference = await fetchReference(
+			createSourceHutProvider(`${baseUrl}/sourcehut`),
+			`${baseUrl}/sourcehut/~owner/repo/tree/main/item/x.sh`
+		);
+		expect(reference.content).toBe("sourcehut content");
+		expect(reference.requests).toEqual([
+			"/sourcehut/~owner/repo/blob/main/x.sh",
+		]);
+		expect(reference.metadata).toMatchObject({
+			site: "sourcehut",
+			author: "~owner",
+			displayUrl: `${baseUrl}/sourcehut/~owner/repo/tree/main/item/x.sh`,
+		});
+	});
+
+	it("does not match links without an owner", () => {
+		expect(
+			createSourceHutProvider(`${baseUrl}/sourcehut`).match(
+				new URL(`${baseUrl}/sourcehut/owner/repo/blob/main/x.sh`)
+			)
+		).toBeNull();
+	});
+});
+
+describe("_fetchExtRef", () => {
+	const getParams = (url: string) => ({
+		id: "id",
+		rawUrl: url,
+		hostname: new URL(url).hostname,
+		headers: {},
+		storePath: "store",
+	});
+
+	it("uses the first matching provider", async () => {
+		const reference = await _fetchExtRef(
+			getParams(`${baseUrl}/gitea/owner/repo/src/branch/main/x.go`),
+			[
+				createGitLabProvider(`${baseUrl}/gitlab`),
+				createGiteaProvider(`${baseUrl}/gitea`),
+			]
+		);
+		expect(reference.content).toBe("gitea content");
+		expect(reference.metadata.site).toBe("gitea");
+	});
+
+	it("keeps content when metadata cannot be fetched", async () => {
+		const reference = await _fetchExtRef(
+			getParams(`${baseUrl}/gitea/owner/repo/src/branch/main/x.go`),
+			[
+				{
+					...createGiteaProvider(`${baseUrl}/gitea`),
+					fetchMetadata: async () => {
+						throw Error("Unavailable");
+					},
+				},
+			]
+		);
+		expect(reference.content).toBe("gitea content");
+		expect(reference.metadata).toMatchObject({
+			site: "gitea",
+			title: "x.go",
+		});
+	});
+
+	it("fetches unmatched links directly", async () => {
+		const reference = await _fetchExtRef(
+			getParams(`${baseUrl}/generic/file.txt`),
+			getReferenceProviders(DEFAULT_SETTINGS)
+		);
+		expect(reference.content).toBe("generic content");
+		expect(Object.keys(reference.metadata)).toEqual(["datetime"]);
+	});
+
+	it("reports failed requests", async () => {
+		await expect(
+			_fetchExtRef(getParams(`${baseUrl}/missing/file.txt`), [])
+		).rejects.toThrow("Could not fetch external URL");
+	});
+});
+
+describe("getReferenceProviders", () => {
+	it("adds self-hosted instances from settings", () => {
+		const providers = getReferenceProviders({
+			...DEFAULT_SETTINGS,
+			externalReferenceGitLabHosts: "https://git.example.com/, invalid",
+			externalReferenceGiteaHosts: "https://gitea.example.com",
+		});
+		const match = (url: string) =>
+			providers
+				.map(
+					(provider) => provider.match(new URL(url)) && provider.site
+				)
+				.find(Boolean);
+		expect(match("https://git.example.com/a/b/-/blob/main/x")).toBe(
+			"gitlab"
+		);
+		expect(match("https://gitea.example.com/a/b/src/branch/main/x")).toBe(
+			"gitea"
+		);
+		expect(match("https://sourceforge.net/a/b/x")).toBeUndefined();
+	});
+});
@@ -1,6 +1,12 @@
 import { defineConfig } from "vitest/config";
+import { fileURLToPath } from "url";
 
 export default defineConfig({
+	resolve: {
+		alias: {
+			src: fileURLToPath(new URL("./src", import.meta.url)),
+		},
+	},
 	test: {
 		
 	},